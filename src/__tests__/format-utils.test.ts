@@ -0,0 +1,317 @@
+import { describe, it, expect } from "vitest";
+import { NotificationTask } from "../types";
+import {
+  formatCount,
+  formatDaysAway,
+  formatEventDate,
+  formatInstant,
+  formatOffset,
+  formatOccurrence,
+  formatOffsetKey,
+  formatMonthlyRule,
+  formatOrdinal,
+  formatRecurrenceRule,
+  formatRelativeTime,
+  formatRepeat,
+  formatTaskStatus,
+  parseNotificationKey,
+} from "../format-utils";
+
+describe("formatCount", () => {
+  it("uses singular for 1", () => {
+    expect(formatCount(1, "day")).toBe("1 day");
+  });
+
+  it("uses plural for other counts", () => {
+    expect(formatCount(3, "week")).toBe("3 weeks");
+    expect(formatCount(0, "day")).toBe("0 days");
+  });
+});
+
+describe("formatDaysAway", () => {
+  it("names today and tomorrow", () => {
+    expect(formatDaysAway(0)).toBe("today");
+    expect(formatDaysAway(1)).toBe("tomorrow");
+  });
+
+  it("counts days further ahead", () => {
+    expect(formatDaysAway(5)).toBe("in 5 days");
+  });
+});
+
+describe("formatRelativeTime", () => {
+  it("formats upcoming times", () => {
+    expect(formatRelativeTime(30)).toBe("in 30 minutes");
+    expect(formatRelativeTime(120)).toBe("in 2 hours");
+    expect(formatRelativeTime(60)).toBe("in 1 hour");
+  });
+
+  it("formats started times", () => {
+    expect(formatRelativeTime(-1)).toBe("started 1 minute ago");
+    expect(formatRelativeTime(-150)).toBe("started 3 hours ago");
+  });
+
+  it("formats the start itself", () => {
+    expect(formatRelativeTime(0)).toBe("starting now");
+  });
+});
+
+describe("formatOrdinal", () => {
+  it("formats ordinals", () => {
+    expect(formatOrdinal(1)).toBe("1st");
+    expect(formatOrdinal(2)).toBe("2nd");
+    expect(formatOrdinal(3)).toBe("3rd");
+    expect(formatOrdinal(4)).toBe("4th");
+    expect(formatOrdinal(11)).toBe("11th");
+    expect(formatOrdinal(12)).toBe("12th");
+    expect(formatOrdinal(22)).toBe("22nd");
+    expect(formatOrdinal(101)).toBe("101st");
+  });
+});
+
+describe("formatMonthlyRule", () => {
+  it("formats weekday rules", () => {
+    expect(formatMonthlyRule({ ordinal: 2, target: 2 })).toBe(
+      "on the 2nd Tuesday",
+    );
+    expect(formatMonthlyRule({ ordinal: -1, target: 5 })).toBe(
+      "on the last Friday",
+    );
+  });
+
+  it("formats day and workday rules", () => {
+    expect(formatMonthlyRule({ ordinal: -1, target: "day" })).toBe(
+      "on the last day",
+    );
+    expect(formatMonthlyRule({ ordinal: 1, target: "workday" })).toBe(
+      "on the 1st workday",
+    );
+  });
+});
+
+describe("formatRepeat", () => {
+  it("omits the count for single intervals", () => {
+    expect(formatRepeat("week")).toBe("every week");
+    expect(formatRepeat("year", 1)).toBe("every year");
+  });
+
+  it("includes the count for multiple intervals", () => {
+    expect(formatRepeat("week", 2)).toBe("every 2 weeks");
+    expect(formatRepeat("month", 3)).toBe("every 3 months");
+  });
+
+  it("appends monthly rules", () => {
+    expect(formatRepeat("month", 3, { ordinal: -1, target: "workday" })).toBe(
+      "every 3 months on the last workday",
+    );
+  });
+});
+
+describe("formatRecurrenceRule", () => {
+  it("formats the rule parts", () => {
+    expect(
+      formatRecurrenceRule({
+        freq: "WEEKLY",
+        interval: 2,
+        byDay: [
+          { weekday: 1, ordinal: null },
+          { weekday: 5, ordinal: null },
+        ],
+        byMonthDay: [],
+        byMonth: [],
+        count: 10,
+        until: null,
+        exDates: [],
+      }),
+    ).toBe("every 2 weeks on Monday, Friday, 10 times");
+  });
+
+  it("formats ordinals, months and until", () => {
+    expect(
+      formatRecurrenceRule({
+        freq: "YEARLY",
+        interval: 1,
+        byDay: [{ weekday: 4, ordinal: 4 }],
+        byMonthDay: [],
+        byMonth: [11],
+        count: null,
+        until: "2030-12-31",
+        exDates: [],
+      }),
+    ).toBe("every year on 4th Thursday in Nov until 2030-12-31");
+  });
+});
+
+describe("formatEventDate", () => {
+  const task = {
+    eventDate: "2025-06-01",
+    eventEndDate: null,
+  } as NotificationTask;
+
+  it("formats single dates", () => {
+    expect(formatEventDate(task)).toBe("2025-06-01");
+  });
+
+  it("formats date ranges", () => {
+    expect(formatEventDate({ ...task, eventEndDate: "2025-06-05" })).toBe(
+      "2025-06-01..2025-06-05",
+    );
+  });
+});
+
+describe("formatOffset", () => {
+  it("formats single-unit offsets", () => {
+    expect(formatOffset({ number: 10, unit: "day" })).toBe("10 days");
+  });
+
+  it("formats mixed-unit offsets", () => {
+    expect(
+      formatOffset({
+        number: 1,
+        unit: "week",
+        rest: [{ number: 3, unit: "day" }],
+      }),
+    ).toBe("1 week 3 days");
+  });
+});
+
+describe("formatOffsetKey", () => {
+  it("keeps the single-unit key format", () => {
+    expect(formatOffsetKey({ number: 2, unit: "week" })).toBe("2-week");
+  });
+
+  it("joins mixed-unit parts", () => {
+    expect(
+      formatOffsetKey({
+        number: 1,
+        unit: "week",
+        rest: [{ number: 3, unit: "day" }],
+      }),
+    ).toBe("1-week+3-day");
+  });
+});
+
+describe("parseNotificationKey", () => {
+  it("splits keys into the task, notification and date", () => {
+    expect(parseNotificationKey("Notes/a.md:12:1-week@2025-06-01")).toEqual({
+      taskKey: "Notes/a.md:12:",
+      notification: "1-week",
+      date: "2025-06-01",
+    });
+    expect(
+      parseNotificationKey("Notes/a.md:12:daily-5-day:2025-05-30"),
+    ).toEqual({
+      taskKey: "Notes/a.md:12:",
+      notification: "daily-5-day",
+      date: "2025-05-30",
+    });
+  });
+
+  it("returns null for keys without a date", () => {
+    expect(parseNotificationKey("Notes/a.md:12:event")).toBeNull();
+    expect(parseNotificationKey("Notes/a.md:12:1-week")).toBeNull();
+  });
+});
+
+describe("formatOccurrence", () => {
+  const task = {
+    title: "Company anniversary",
+    repeatInterval: "year",
+    repeatEvery: 1,
+    recurrenceRule: null,
+  } as NotificationTask;
+
+  it("formats ages for birthdays", () => {
+    expect(formatOccurrence({ ...task, title: "Bob's birthday" }, 38)).toBe(
+      "turns 37",
+    );
+  });
+
+  it("formats anniversaries for other yearly events", () => {
+    expect(formatOccurrence(task, 11)).toBe("10th anniversary");
+    expect(formatOccurrence(task, 3)).toBe("2nd anniversary");
+  });
+
+  it("counts years for every N years", () => {
+    expect(formatOccurrence({ ...task, repeatEvery: 5 }, 3)).toBe(
+      "10th anniversary",
+    );
+  });
+
+  it("returns null on the first occurrence of yearly events", () => {
+    expect(formatOccurrence(task, 1)).toBeNull();
+  });
+
+  it("numbers occurrences of other intervals", () => {
+    expect(formatOccurrence({ ...task, repeatInterval: "month" }, 4)).toBe(
+      "occurrence #4",
+    );
+  });
+});
+
+describe("formatTaskStatus", () => {
+  it("names the common statuses", () => {
+    expect(formatTaskStatus(" ")).toBe("to do [ ]");
+    expect(formatTaskStatus("x")).toBe("done [x]");
+    expect(formatTaskStatus("-")).toBe("cancelled [-]");
+    expect(formatTaskStatus("/")).toBe("in progress [/]");
+  });
+
+  it("shows other statuses as written", () => {
+    expect(formatTaskStatus("?")).toBe("[?]");
+  });
+});
+
+describe("formatInstant", () => {
+  const occurrence = {
+    date: "2025-03-15",
+    endDate: null,
+    occurrenceNumber: null,
+  };
+
+  it("formats the event itself", () => {
+    expect(
+      formatInstant({
+        kind: "event",
+        offset: null,
+        date: "2025-03-15",
+        time: "09:00",
+        occurrence,
+      }),
+    ).toBe("2025-03-15 09:00, event");
+  });
+
+  it("formats reminders and follow-ups with their offset", () => {
+    const offset = { number: 1, unit: "week" as const };
+    expect(
+      formatInstant({
+        kind: "reminder",
+        offset,
+        date: "2025-03-08",
+        time: null,
+        occurrence,
+      }),
+    ).toBe("2025-03-08, 1 week before");
+    expect(
+      formatInstant({
+        kind: "followUp",
+        offset,
+        date: "2025-03-22",
+        time: null,
+        occurrence,
+      }),
+    ).toBe("2025-03-22, 1 week after");
+  });
+
+  it("counts the days left in countdowns", () => {
+    expect(
+      formatInstant({
+        kind: "countdown",
+        offset: { number: 1, unit: "week" },
+        date: "2025-03-12",
+        time: null,
+        occurrence,
+      }),
+    ).toBe("2025-03-12, 3 days left");
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { parseHolidayFile } from "../holiday-parser";
+
+describe("parseHolidayFile", () => {
+  describe("markdown lists", () => {
+    it("parses dated list items", () => {
+      const content = [
+        "# Holidays 2025",
+        "",
+        "- 2025-12-25 Christmas Day",
+        "- 2025-12-26: Boxing Day",
+        "* New Year's Day 📆 2026-01-01",
+      ].join("\n");
+
+      expect(parseHolidayFile(content, "Holidays.md")).toEqual([
+        { date: "2025-12-25", name: "Christmas Day", filePath: "Holidays.md" },
+        { date: "2025-12-26", name: "Boxing Day", filePath: "Holidays.md" },
+        {
+          date: "2026-01-01",
+          name: "New Year's Day",
+          filePath: "Holidays.md",
+        },
+      ]);
+    });
+
+    it("parses task list items", () => {
+      expect(
+        parseHolidayFile("- [ ] 2025-05-26 — Spring Bank Holiday", "h.md"),
+      ).toEqual([
+        { date: "2025-05-26", name: "Spring Bank Holiday", filePath: "h.md" },
+      ]);
+    });
+
+    it("ignores lines that aren't dated list items", () => {
+      const content = [
+        "2025-12-25 Christmas Day",
+        "- Christmas Day",
+        "- 2025-13-45 Not a date",
+      ].join("\n");
+
+      expect(parseHolidayFile(content, "Holidays.md")).toEqual([]);
+    });
+
+    it("names unnamed holidays", () => {
+      expect(parseHolidayFile("- 2025-12-25", "h.md")).toEqual([
+        { date: "2025-12-25", name: "Holiday", filePath: "h.md" },
+      ]);
+    });
+  });
+
+  describe("CSV files", () => {
+    it("parses date and name rows", () => {
+      const content = "2025-12-25,Christmas Day\r\n2025-12-26,Boxing Day\r\n";
+
+      expect(parseHolidayFile(content, "holidays.csv")).toEqual([
+        { date: "2025-12-25", name: "Christmas Day", filePath: "holidays.csv" },
+        { date: "2025-12-26", name: "Boxing Day", filePath: "holidays.csv" },
+      ]);
+    });
+
+    it("skips a header row", () => {
+      const content = "date,name\n2025-12-25,Christmas Day";
+
+      expect(parseHolidayFile(content, "holidays.CSV")).toHaveLength(1);
+    });
+
+    it("handles quoted names", () => {
+      const content = '2025-07-04,"Independence Day, observed"\n';
+
+      expect(parseHolidayFile(content, "holidays.csv")[0]?.name).toBe(
+        "Independence Day, observed",
+      );
+    });
+
+    it("ignores rows without a valid date", () => {
+      const content = "Christmas,2025-12-25\n2025-02-30,Nope\n\n";
+
+      expect(parseHolidayFile(content, "holidays.csv")).toEqual([]);
+    });
+  });
+});
@@ -1,13 +1,30 @@
 import { describe, it, expect } from "vitest";
+import { moment } from "obsidian";
 import { NotificationMatcher } from "../matcher";
 import { NotificationSettings } from "../settings";
-import { NotificationTask } from "../types";
+import { NotificationTask, ReminderOffset } from "../types";
 
 const DEFAULT_SETTINGS: NotificationSettings = {
   lookbackDays: 3,
   useFileDate: true,
   debugLogging: false,
   acknowledgements: {},
+  excludedFolders: [],
+  nonWorkingDays: [0, 6],
+  holidayFiles: [],
+  monthEndPolicy: "clamp",
+  showHolidays: false,
+  hideCompletedTasks: true,
+  completeRecurringTasks: "off",
+  frontmatterEvents: [],
+  syntaxDialects: [],
+  markerVocabulary: { notify: [], date: [], repeat: [], offset: [] },
+};
+
+// Without a lookback window, events only show on the day itself
+const EXACT_SETTINGS: NotificationSettings = {
+  ...DEFAULT_SETTINGS,
+  lookbackDays: 0,
 };
 
 const createTask = (
@@ -15,12 +32,28 @@ const createTask = (
 ): NotificationTask => ({
   title: "Test Task",
   eventDate: "2025-01-15",
+  eventEndDate: null,
+  eventTime: null,
+  workdayShift: null,
+  pinned: false,
+  lookbackDays: null,
   repeatInterval: null,
+  repeatEvery: 1,
+  monthlyRule: null,
+  recurrenceRule: null,
+  repeatUntil: null,
+  repeatCount: null,
+  repeatAfterDone: false,
   reminderOffsets: [],
+  followUpOffsets: [],
+  dailyReminder: null,
   filePath: "test.md",
   lineNumber: 1,
   originalText: "task",
   blockId: "abc123",
+  frontmatterKey: null,
+  status: " ",
+  doneDate: null,
   ...overrides,
 });
 
@@ -195,7 +228,7 @@ describe("NotificationMatcher.getActiveNotifications", () => {
         }),
       ];
 
-      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+      const matcher = new NotificationMatcher(EXACT_SETTINGS);
       const active = matcher.getActiveNotifications(tasks, "2025-02-16");
 
       expect(active).toHaveLength(0);
@@ -227,7 +260,7 @@ describe("NotificationMatcher.getActiveNotifications", () => {
         }),
       ];
 
-      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+      const matcher = new NotificationMatcher(EXACT_SETTINGS);
       const active = matcher.getActiveNotifications(tasks, "2025-01-14"); // Tuesday
 
       expect(active).toHaveLength(0);
@@ -258,178 +291,2772 @@ describe("NotificationMatcher.getActiveNotifications", () => {
     });
   });
 
-  describe("reminder offsets", () => {
-    it("triggers reminder 1 day before event", () => {
+  describe("lookback for repeating events", () => {
+    it("shows a missed weekly occurrence on the following days", () => {
       const tasks = [
         createTask({
-          title: "Meeting",
-          eventDate: "2025-01-15",
-          reminderOffsets: [{ number: 1, unit: "day" }],
+          title: "Weekly review",
+          eventDate: "2025-01-04", // Saturday
+          repeatInterval: "week",
         }),
       ];
 
       const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
-      const active = matcher.getActiveNotifications(tasks, "2025-01-14");
+      const active = matcher.getActiveNotifications(tasks, "2025-01-13"); // Monday
 
       expect(active).toHaveLength(1);
-      expect(active[0].displayText).toContain("1 day early");
+      expect(active[0].displayText).toContain("2 days ago");
+      expect(active[0].occurrenceDate).toBe("2025-01-11");
     });
 
-    it("uses singular for 1 unit", () => {
+    it("shows a missed monthly occurrence until the window ends", () => {
       const tasks = [
         createTask({
-          title: "Meeting",
-          eventDate: "2025-01-15",
-          reminderOffsets: [{ number: 1, unit: "week" }],
+          title: "Pay rent",
+          eventDate: "2025-01-01",
+          repeatInterval: "month",
         }),
       ];
 
       const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
-      const active = matcher.getActiveNotifications(tasks, "2025-01-08");
 
-      expect(active).toHaveLength(1);
-      expect(active[0].displayText).toContain("1 week early");
-      expect(active[0].displayText).not.toContain("weeks");
+      const active = matcher.getActiveNotifications(tasks, "2025-03-04");
+      expect(active[0].displayText).toContain("3 days ago");
+      expect(active[0].occurrenceDate).toBe("2025-03-01");
+      expect(matcher.getActiveNotifications(tasks, "2025-03-05")).toEqual([]);
     });
 
-    it("uses plural for multiple units", () => {
+    it("shows a missed monthly rule occurrence", () => {
       const tasks = [
         createTask({
-          title: "Conference",
-          eventDate: "2025-02-01",
-          reminderOffsets: [{ number: 2, unit: "week" }],
+          title: "Patch Tuesday",
+          eventDate: "2025-01-14",
+          repeatInterval: "month",
+          monthlyRule: { ordinal: 2, target: 2 },
         }),
       ];
 
       const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
-      const active = matcher.getActiveNotifications(tasks, "2025-01-18");
+      const active = matcher.getActiveNotifications(tasks, "2025-02-13");
 
-      expect(active).toHaveLength(1);
-      expect(active[0].displayText).toContain("2 weeks early");
+      expect(active[0].displayText).toContain("2 days ago");
     });
 
-    it("supports multiple reminders per task", () => {
+    it("only shows the latest occurrence", () => {
       const tasks = [
         createTask({
-          title: "Big Event",
-          eventDate: "2025-02-01",
-          reminderOffsets: [
-            { number: 1, unit: "week" },
-            { number: 1, unit: "day" },
-          ],
+          title: "Daily Task",
+          eventDate: "2025-01-01",
+          repeatInterval: "day",
+        }),
+        createTask({
+          title: "Water Plants",
+          eventDate: "2025-01-01",
+          repeatInterval: "day",
+          repeatEvery: 2,
         }),
       ];
 
       const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+      const active = matcher.getActiveNotifications(tasks, "2025-01-10");
 
-      // 1 week before
-      const active1 = matcher.getActiveNotifications(tasks, "2025-01-25");
-      expect(active1).toHaveLength(1);
-      expect(active1[0].displayText).toContain("1 week early");
+      expect(active.map((n) => n.displayText)).toEqual([
+        expect.stringContaining("today*"),
+        expect.stringContaining("1 day ago*"),
+      ]);
+    });
+  });
 
-      // 1 day before
-      const active2 = matcher.getActiveNotifications(tasks, "2025-01-31");
-      expect(active2).toHaveLength(1);
-      expect(active2[0].displayText).toContain("1 day early");
+  describe("task status", () => {
+    it("drops one-time tasks that are done or cancelled", () => {
+      const tasks = [
+        createTask({ title: "Done", status: "x" }),
+        createTask({ title: "Also done", status: "X" }),
+        createTask({ title: "Cancelled", status: "-" }),
+        createTask({ title: "Open", status: " " }),
+        createTask({ title: "In progress", status: "/" }),
+      ];
 
-      // Not on other days
-      expect(matcher.getActiveNotifications(tasks, "2025-01-20")).toHaveLength(
-        0,
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+      const active = matcher.getActiveNotifications(tasks, "2025-01-15");
+
+      expect(active.map((n) => n.task.title)).toEqual(["Open", "In progress"]);
+    });
+
+    it("drops the reminders of completed tasks", () => {
+      const tasks = [
+        createTask({
+          status: "x",
+          reminderOffsets: [{ number: 1, unit: "week" }],
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+
+      expect(matcher.getActiveNotifications(tasks, "2025-01-08")).toEqual([]);
+    });
+
+    it("keeps repeating tasks that are checked off", () => {
+      const tasks = [
+        createTask({ status: "x", repeatInterval: "month" }),
+        createTask({
+          status: "x",
+          recurrenceRule: {
+            freq: "MONTHLY",
+            interval: 1,
+            byDay: [],
+            byMonthDay: [15],
+            byMonth: [],
+            count: null,
+            until: null,
+            exDates: [],
+          },
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+
+      expect(matcher.getActiveNotifications(tasks, "2025-02-15")).toHaveLength(
+        2,
       );
     });
 
-    it("shows both event and reminder on event day", () => {
+    it("drops checked-off recurring tasks with a done date", () => {
       const tasks = [
         createTask({
-          title: "Event",
-          eventDate: "2025-01-15",
-          reminderOffsets: [{ number: 1, unit: "day" }],
+          status: "x",
+          repeatInterval: "month",
+          doneDate: "2025-01-16",
         }),
       ];
 
       const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
 
-      // On the event day, should show the event itself
-      const active = matcher.getActiveNotifications(tasks, "2025-01-15");
-      expect(active).toHaveLength(1);
-      expect(active[0].displayText).toContain("today");
+      expect(matcher.getActiveNotifications(tasks, "2025-02-15")).toEqual([]);
+    });
 
-      // On reminder day
-      const activeReminder = matcher.getActiveNotifications(
-        tasks,
-        "2025-01-14",
+    it("keeps completed tasks when the setting is off", () => {
+      const tasks = [createTask({ status: "x" })];
+
+      const matcher = new NotificationMatcher({
+        ...DEFAULT_SETTINGS,
+        hideCompletedTasks: false,
+      });
+
+      expect(matcher.getActiveNotifications(tasks, "2025-01-15")).toHaveLength(
+        1,
+      );
+    });
+
+    it("keeps frontmatter events, which have no status", () => {
+      const tasks = [createTask({ status: null, frontmatterKey: "deadline" })];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+
+      expect(matcher.getActiveNotifications(tasks, "2025-01-15")).toHaveLength(
+        1,
       );
-      expect(activeReminder).toHaveLength(1);
-      expect(activeReminder[0].displayText).toContain("1 day early");
     });
   });
 
-  describe("multiple tasks", () => {
-    it("returns all matching tasks", () => {
+  describe("getTaskAdvance", () => {
+    const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+
+    it("moves on to the next occurrence", () => {
+      const task = createTask({
+        eventDate: "2025-01-15",
+        repeatInterval: "month",
+      });
+
+      expect(matcher.getTaskAdvance(task, "2025-03-15", "2025-03-15")).toEqual({
+        eventDate: "2025-04-15",
+        eventEndDate: null,
+        repeatCount: null,
+      });
+    });
+
+    it("keeps the day of the month through short months", () => {
+      const task = createTask({
+        eventDate: "2025-01-31",
+        repeatInterval: "month",
+      });
+
+      // February has no 31st, so the 📆 date stays until March
+      const afterJanuary = matcher.getTaskAdvance(
+        task,
+        "2025-01-31",
+        "2025-01-31",
+      );
+      expect(afterJanuary?.eventDate).toBe("2025-01-31");
+      expect(
+        matcher
+          .getNextOccurrences(task, "2025-02-01", 2)
+          .map((occurrence) => occurrence.date),
+      ).toEqual(["2025-02-28", "2025-03-31"]);
+
+      const afterFebruary = matcher.getTaskAdvance(
+        task,
+        "2025-02-28",
+        "2025-02-28",
+      );
+      expect(afterFebruary?.eventDate).toBe("2025-03-31");
+      expect(
+        matcher
+          .getNextOccurrences(
+            { ...task, eventDate: "2025-03-31" },
+            "2025-03-01",
+            2,
+          )
+          .map((occurrence) => occurrence.date),
+      ).toEqual(["2025-03-31", "2025-04-30"]);
+    });
+
+    it("keeps the 📆 date of yearly series, which ages count from", () => {
+      const task = createTask({
+        title: "Alex's birthday",
+        eventDate: "1988-04-02",
+        repeatInterval: "year",
+      });
+
+      const advance = matcher.getTaskAdvance(task, "2025-04-02", "2025-04-02");
+      expect(advance?.eventDate).toBe("1988-04-02");
+
+      const active = matcher.getActiveNotifications(
+        [{ ...task, eventDate: advance?.eventDate ?? "" }],
+        "2026-04-02",
+      );
+      expect(active[0]?.displayText).toContain("*turns 38 today*");
+    });
+
+    it("moves date ranges and counts the occurrences left", () => {
+      const task = createTask({
+        eventDate: "2025-01-06",
+        eventEndDate: "2025-01-07",
+        repeatInterval: "week",
+        repeatEvery: 2,
+        repeatCount: 6,
+      });
+
+      expect(matcher.getTaskAdvance(task, "2025-02-03", "2025-02-03")).toEqual({
+        eventDate: "2025-02-17",
+        eventEndDate: "2025-02-18",
+        repeatCount: 3,
+      });
+    });
+
+    it("returns null after the last occurrence", () => {
+      const task = createTask({
+        eventDate: "2025-01-15",
+        repeatInterval: "month",
+        repeatCount: 3,
+      });
+
+      expect(
+        matcher.getTaskAdvance(task, "2025-03-15", "2025-03-15"),
+      ).toBeNull();
+    });
+
+    it("skips past the occurrence moved to a workday", () => {
+      const task = createTask({
+        eventDate: "2025-01-15",
+        repeatInterval: "month",
+        workdayShift: "previous",
+      });
+
+      // 2025-03-15 is a Saturday, completed on Friday the 14th
+      expect(
+        matcher.getTaskAdvance(task, "2025-03-14", "2025-03-14")?.eventDate,
+      ).toBe("2025-04-15");
+    });
+
+    it("advances RRULE series", () => {
+      const task = createTask({
+        eventDate: "2025-01-06",
+        recurrenceRule: {
+          freq: "WEEKLY",
+          interval: 1,
+          byDay: [
+            { weekday: 1, ordinal: null },
+            { weekday: 3, ordinal: null },
+          ],
+          byMonthDay: [],
+          byMonth: [],
+          count: 10,
+          until: null,
+          exDates: [],
+        },
+      });
+
+      expect(matcher.getTaskAdvance(task, "2025-01-08", "2025-01-08")).toEqual({
+        eventDate: "2025-01-13",
+        eventEndDate: null,
+        repeatCount: 8,
+      });
+    });
+
+    it("restarts after done repeats from the completion", () => {
+      const task = createTask({
+        eventDate: "2025-01-15",
+        repeatInterval: "month",
+        repeatEvery: 3,
+        repeatAfterDone: true,
+      });
+
+      expect(matcher.getTaskAdvance(task, "2025-01-15", "2025-01-20")).toEqual({
+        eventDate: "2025-04-20",
+        eventEndDate: null,
+        repeatCount: null,
+      });
+    });
+  });
+
+  describe("per-task lookback", () => {
+    it("uses the task's lookback window instead of the setting", () => {
       const tasks = [
-        createTask({ title: "Task 1", eventDate: "2025-01-15" }),
-        createTask({ title: "Task 2", eventDate: "2025-01-15" }),
-        createTask({ title: "Task 3", eventDate: "2025-01-16" }),
+        createTask({ eventDate: "2025-01-01", lookbackDays: 14 }),
+        createTask({ eventDate: "2025-01-10", lookbackDays: 0 }),
       ];
 
       const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
-      const active = matcher.getActiveNotifications(tasks, "2025-01-15");
 
-      expect(active).toHaveLength(2);
-      expect(active.map((a) => a.task.title)).toContain("Task 1");
-      expect(active.map((a) => a.task.title)).toContain("Task 2");
+      const active = matcher.getActiveNotifications(tasks, "2025-01-11");
+      expect(active).toHaveLength(1);
+      expect(active[0].displayText).toContain("10 days ago");
+      expect(matcher.getActiveNotifications(tasks, "2025-01-16")).toEqual([]);
     });
 
-    it("combines events and reminders", () => {
+    it("applies to repeating events", () => {
       const tasks = [
         createTask({
-          title: "Event Today",
-          eventDate: "2025-01-15",
-        }),
-        createTask({
-          title: "Event Tomorrow",
-          eventDate: "2025-01-16",
-          reminderOffsets: [{ number: 1, unit: "day" }],
+          eventDate: "2025-01-01",
+          repeatInterval: "month",
+          lookbackDays: 7,
         }),
       ];
 
       const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
-      const active = matcher.getActiveNotifications(tasks, "2025-01-15");
 
-      expect(active).toHaveLength(2);
-      expect(active[0].displayText).toContain("today");
-      expect(active[1].displayText).toContain("1 day early");
+      expect(
+        matcher.getActiveNotifications(tasks, "2025-02-08")[0].displayText,
+      ).toContain("7 days ago");
+      expect(matcher.getActiveNotifications(tasks, "2025-02-09")).toEqual([]);
     });
   });
 
-  describe("edge cases", () => {
-    it("handles empty task list", () => {
+  describe("keep until acknowledged", () => {
+    const visa = createTask({
+      title: "Visa deadline",
+      eventDate: "2025-01-15",
+      pinned: true,
+    });
+
+    it("keeps showing past the lookback window", () => {
       const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
-      const active = matcher.getActiveNotifications([], "2025-01-15");
+      const active = matcher.getActiveNotifications([visa], "2025-06-01");
 
-      expect(active).toHaveLength(0);
+      expect(active).toHaveLength(1);
+      expect(active[0].occurrenceDate).toBe("2025-01-15");
+      expect(active[0].displayText).toContain("137 days ago");
     });
 
-    it("handles tasks with no block ID", () => {
-      const tasks = [createTask({ blockId: "", eventDate: "2025-01-15" })];
+    it("stops once acknowledged", () => {
+      const matcher = new NotificationMatcher({
+        ...DEFAULT_SETTINGS,
+        acknowledgements: { "test.md:1:event@2025-01-15": "2025-01-20" },
+      });
+
+      // Still listed (as checked) inside the lookback window
+      expect(matcher.getActiveNotifications([visa], "2025-01-18")).toHaveLength(
+        1,
+      );
+      expect(matcher.getActiveNotifications([visa], "2025-01-20")).toEqual([]);
+    });
 
+    it("does not show before the event", () => {
       const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
-      const active = matcher.getActiveNotifications(tasks, "2025-01-15");
 
+      expect(matcher.getActiveNotifications([visa], "2025-01-14")).toEqual([]);
+    });
+
+    it("keeps the latest occurrence of a repeating event", () => {
+      const rent = createTask({
+        title: "Rent",
+        eventDate: "2024-01-01",
+        repeatInterval: "month",
+        pinned: true,
+      });
+      const acknowledged = {
+        ...DEFAULT_SETTINGS,
+        acknowledgements: { "test.md:1:event@2025-03-01": "2025-03-02" },
+      };
+
+      const active = new NotificationMatcher(
+        DEFAULT_SETTINGS,
+      ).getActiveNotifications([rent], "2025-03-20");
+      expect(active[0].occurrenceDate).toBe("2025-03-01");
+      expect(active[0].displayText).toContain("19 days ago");
+
+      expect(
+        new NotificationMatcher(acknowledged).getActiveNotifications(
+          [rent],
+          "2025-03-20",
+        ),
+      ).toEqual([]);
+      // The next occurrence shows again
+      expect(
+        new NotificationMatcher(acknowledged).getActiveNotifications(
+          [rent],
+          "2025-04-10",
+        )[0].occurrenceDate,
+      ).toBe("2025-04-01");
+    });
+
+    it("finds the latest occurrence of long-running yearly events", () => {
+      const renewal = createTask({
+        eventDate: "1990-05-01",
+        repeatInterval: "year",
+        pinned: true,
+      });
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+      const active = matcher.getActiveNotifications([renewal], "2025-04-30");
+
+      expect(active[0].occurrenceDate).toBe("2024-05-01");
+    });
+  });
+
+  describe("repeats after done", () => {
+    const afterDone = (overrides: Partial<NotificationTask> = {}) =>
+      createTask({
+        eventDate: "2025-01-02",
+        repeatInterval: "month",
+        repeatEvery: 3,
+        repeatAfterDone: true,
+        ...overrides,
+      });
+
+    it("is due on the 📆 date until first completed", () => {
+      const matcher = new NotificationMatcher(EXACT_SETTINGS);
+
+      expect(
+        matcher.getActiveNotifications([afterDone()], "2025-01-02"),
+      ).toHaveLength(1);
+      expect(
+        matcher.getActiveNotifications([afterDone()], "2025-04-02"),
+      ).toHaveLength(0);
+    });
+
+    it("counts from the ✅ date on the line", () => {
+      const matcher = new NotificationMatcher(EXACT_SETTINGS);
+      const task = afterDone({ doneDate: "2025-01-20" });
+
+      expect(matcher.getActiveNotifications([task], "2025-04-02")).toHaveLength(
+        0,
+      );
+      const active = matcher.getActiveNotifications([task], "2025-04-20");
       expect(active).toHaveLength(1);
+      expect(active[0].occurrenceDate).toBe("2025-04-20");
+      expect(active[0].occurrenceNumber).toBeNull();
     });
 
-    it("respects custom lookback setting", () => {
-      const customSettings = { ...DEFAULT_SETTINGS, lookbackDays: 1 };
+    it("counts from the latest acknowledgement of the event", () => {
+      const matcher = new NotificationMatcher({
+        ...EXACT_SETTINGS,
+        acknowledgements: {
+          "test.md:1:event@2025-01-02": "2025-01-05",
+          "test.md:1:1-week@2025-01-02": "2024-12-26",
+        },
+      });
+      const task = afterDone({ doneDate: "2024-12-01" });
+
+      expect(matcher.getActiveNotifications([task], "2025-04-05")).toHaveLength(
+        1,
+      );
+    });
+
+    it("reminds ahead of the next due date", () => {
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+      const task = afterDone({
+        doneDate: "2025-01-20",
+        reminderOffsets: [{ number: 1, unit: "week" }],
+      });
+
+      const active = matcher.getActiveNotifications([task], "2025-04-13");
+      expect(active).toHaveLength(1);
+      expect(active[0].kind).toBe("reminder");
+      expect(active[0].occurrenceDate).toBe("2025-04-20");
+    });
+
+    it("stops after the 🔚 date", () => {
+      const matcher = new NotificationMatcher(EXACT_SETTINGS);
+      const task = afterDone({
+        doneDate: "2025-01-20",
+        repeatUntil: "2025-03-31",
+      });
+
+      expect(matcher.getActiveNotifications([task], "2025-04-20")).toHaveLength(
+        0,
+      );
+    });
+  });
+
+  describe("every N interval repeating events", () => {
+    it("matches every 2 weeks anchored on the event date", () => {
       const tasks = [
-        createTask({ eventDate: "2025-01-13" }), // 2 days ago
+        createTask({
+          title: "Payroll",
+          eventDate: "2025-01-03", // Friday
+          repeatInterval: "week",
+          repeatEvery: 2,
+        }),
       ];
 
-      const matcher = new NotificationMatcher(customSettings);
-      const active = matcher.getActiveNotifications(tasks, "2025-01-15");
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
 
-      // Should not match because lookback is only 1 day
-      expect(active).toHaveLength(0);
+      expect(matcher.getActiveNotifications(tasks, "2025-01-17")).toHaveLength(
+        1,
+      );
+      expect(matcher.getActiveNotifications(tasks, "2025-01-31")).toHaveLength(
+        1,
+      );
+      // Off-week Friday
+      expect(matcher.getActiveNotifications(tasks, "2025-01-10")).toHaveLength(
+        0,
+      );
+    });
+
+    it("matches every 3 months on the same day", () => {
+      const tasks = [
+        createTask({
+          title: "Quarterly Tax",
+          eventDate: "2025-01-15",
+          repeatInterval: "month",
+          repeatEvery: 3,
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+
+      expect(matcher.getActiveNotifications(tasks, "2025-04-15")).toHaveLength(
+        1,
+      );
+      expect(matcher.getActiveNotifications(tasks, "2026-01-15")).toHaveLength(
+        1,
+      );
+      expect(matcher.getActiveNotifications(tasks, "2025-02-15")).toHaveLength(
+        0,
+      );
     });
+
+    it("matches every 3 days", () => {
+      const tasks = [
+        createTask({
+          title: "Water Plants",
+          eventDate: "2025-01-01",
+          repeatInterval: "day",
+          repeatEvery: 3,
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(EXACT_SETTINGS);
+
+      expect(matcher.getActiveNotifications(tasks, "2025-01-04")).toHaveLength(
+        1,
+      );
+      expect(matcher.getActiveNotifications(tasks, "2025-01-05")).toHaveLength(
+        0,
+      );
+    });
+
+    it("matches every 2 years with lookback", () => {
+      const tasks = [
+        createTask({
+          title: "Passport Photo",
+          eventDate: "2021-06-10",
+          repeatInterval: "year",
+          repeatEvery: 2,
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+
+      const active = matcher.getActiveNotifications(tasks, "2025-06-12");
+      expect(active).toHaveLength(1);
+      expect(active[0].displayText).toContain("2 days ago");
+      expect(matcher.getActiveNotifications(tasks, "2024-06-10")).toHaveLength(
+        0,
+      );
+    });
+
+    it("triggers reminders only before on-cadence occurrences", () => {
+      const tasks = [
+        createTask({
+          title: "Service",
+          eventDate: "2025-01-20",
+          repeatInterval: "month",
+          repeatEvery: 6,
+          reminderOffsets: [{ number: 1, unit: "week" }],
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+
+      const active = matcher.getActiveNotifications(tasks, "2025-07-13");
+      expect(active).toHaveLength(1);
+      expect(active[0].displayText).toContain("1 week early");
+      expect(matcher.getActiveNotifications(tasks, "2025-02-13")).toHaveLength(
+        0,
+      );
+    });
+
+    it("shows the cadence in the display text", () => {
+      const tasks = [
+        createTask({
+          eventDate: "2025-01-01",
+          repeatInterval: "week",
+          repeatEvery: 2,
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+      const active = matcher.getActiveNotifications(tasks, "2025-01-15");
+
+      expect(active[0].displayText).toContain("🔁 every 2 weeks");
+    });
+  });
+
+  describe("monthly rule repeating events", () => {
+    it("matches the 2nd Tuesday of each month", () => {
+      const tasks = [
+        createTask({
+          title: "Patch Tuesday",
+          eventDate: "2025-01-14",
+          repeatInterval: "month",
+          monthlyRule: { ordinal: 2, target: 2 },
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(EXACT_SETTINGS);
+
+      const active = matcher.getActiveNotifications(tasks, "2025-02-11");
+      expect(active).toHaveLength(1);
+      expect(active[0].displayText).toContain("today");
+      expect(matcher.getActiveNotifications(tasks, "2025-03-11")).toHaveLength(
+        1,
+      );
+      // Same day number as the event date, but not the 2nd Tuesday
+      expect(matcher.getActiveNotifications(tasks, "2025-02-14")).toHaveLength(
+        0,
+      );
+      // 1st Tuesday
+      expect(matcher.getActiveNotifications(tasks, "2025-02-04")).toHaveLength(
+        0,
+      );
+    });
+
+    it("matches the last Friday of each month", () => {
+      const tasks = [
+        createTask({
+          eventDate: "2025-01-31",
+          repeatInterval: "month",
+          monthlyRule: { ordinal: -1, target: 5 },
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+
+      expect(matcher.getActiveNotifications(tasks, "2025-02-28")).toHaveLength(
+        1,
+      );
+      expect(matcher.getActiveNotifications(tasks, "2025-05-30")).toHaveLength(
+        1,
+      );
+      expect(matcher.getActiveNotifications(tasks, "2025-05-23")).toHaveLength(
+        0,
+      );
+    });
+
+    it("matches the last day of each month", () => {
+      const tasks = [
+        createTask({
+          eventDate: "2025-01-31",
+          repeatInterval: "month",
+          monthlyRule: { ordinal: -1, target: "day" },
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+
+      expect(matcher.getActiveNotifications(tasks, "2025-02-28")).toHaveLength(
+        1,
+      );
+      expect(matcher.getActiveNotifications(tasks, "2024-02-29")).toHaveLength(
+        1,
+      );
+      expect(matcher.getActiveNotifications(tasks, "2025-04-30")).toHaveLength(
+        1,
+      );
+      expect(matcher.getActiveNotifications(tasks, "2025-04-29")).toHaveLength(
+        0,
+      );
+    });
+
+    it("matches the last workday of each quarter", () => {
+      const tasks = [
+        createTask({
+          title: "Quarter Close",
+          eventDate: "2025-03-31",
+          repeatInterval: "month",
+          repeatEvery: 3,
+          monthlyRule: { ordinal: -1, target: "workday" },
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+
+      // 2025-05-31 is a Saturday, but May is not a quarter end
+      expect(matcher.getActiveNotifications(tasks, "2025-05-30")).toHaveLength(
+        0,
+      );
+      // 2025-06-30 is a Monday
+      expect(matcher.getActiveNotifications(tasks, "2025-06-30")).toHaveLength(
+        1,
+      );
+      // 2025-08-31 is a Sunday, so September ends on Tuesday the 30th
+      expect(matcher.getActiveNotifications(tasks, "2025-09-30")).toHaveLength(
+        1,
+      );
+      // 2025-12-31 is a Wednesday
+      expect(matcher.getActiveNotifications(tasks, "2025-12-31")).toHaveLength(
+        1,
+      );
+    });
+
+    it("skips months without a 5th weekday", () => {
+      const tasks = [
+        createTask({
+          eventDate: "2025-01-31",
+          repeatInterval: "month",
+          monthlyRule: { ordinal: 5, target: 5 }, // 5th Friday
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+
+      // February 2025 has only 4 Fridays
+      expect(matcher.getActiveNotifications(tasks, "2025-02-28")).toHaveLength(
+        0,
+      );
+      expect(matcher.getActiveNotifications(tasks, "2025-05-30")).toHaveLength(
+        1,
+      );
+    });
+
+    it("triggers reminders before the resolved day", () => {
+      const tasks = [
+        createTask({
+          title: "Patch Tuesday",
+          eventDate: "2025-01-14",
+          repeatInterval: "month",
+          monthlyRule: { ordinal: 2, target: 2 },
+          reminderOffsets: [{ number: 1, unit: "day" }],
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(EXACT_SETTINGS);
+
+      const active = matcher.getActiveNotifications(tasks, "2025-02-10");
+      expect(active).toHaveLength(1);
+      expect(active[0].displayText).toContain("1 day early");
+      expect(matcher.getActiveNotifications(tasks, "2025-02-13")).toHaveLength(
+        0,
+      );
+    });
+
+    it("shows the rule in the display text", () => {
+      const tasks = [
+        createTask({
+          eventDate: "2025-01-31",
+          repeatInterval: "month",
+          monthlyRule: { ordinal: -1, target: 5 },
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+      const active = matcher.getActiveNotifications(tasks, "2025-02-28");
+
+      expect(active[0].displayText).toContain(
+        "🔁 every month on the last Friday",
+      );
+    });
+  });
+
+  describe("RRULE repeating events", () => {
+    const rule = {
+      freq: "MONTHLY" as const,
+      interval: 1,
+      byDay: [{ weekday: 2, ordinal: 2 }],
+      byMonthDay: [],
+      byMonth: [],
+      count: null,
+      until: null,
+      exDates: [],
+    };
+
+    it("finds occurrences of rules that skip years", () => {
+      const task = createTask({
+        eventDate: "2024-02-29",
+        repeatInterval: "year",
+        reminderOffsets: [{ number: 1, unit: "week" }],
+        recurrenceRule: {
+          ...rule,
+          freq: "YEARLY",
+          byDay: [],
+          byMonth: [2],
+          byMonthDay: [29],
+        },
+      });
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+      expect(
+        matcher.getNextOccurrences(task, "2025-01-01", 2).map((o) => o.date),
+      ).toEqual(["2028-02-29", "2032-02-29"]);
+      expect(matcher.getActiveNotifications([task], "2028-02-22")).toHaveLength(
+        1,
+      );
+    });
+
+    it("matches occurrences produced by the rule", () => {
+      const tasks = [
+        createTask({
+          title: "Patch Tuesday",
+          eventDate: "2025-01-01",
+          repeatInterval: "month",
+          recurrenceRule: rule,
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+
+      const active = matcher.getActiveNotifications(tasks, "2025-02-11");
+      expect(active).toHaveLength(1);
+      expect(active[0].displayText).toContain("today");
+      // The 📆 date itself is not an occurrence
+      expect(matcher.getActiveNotifications(tasks, "2025-03-01")).toHaveLength(
+        0,
+      );
+    });
+
+    it("applies the lookback window to occurrences", () => {
+      const tasks = [
+        createTask({
+          eventDate: "2025-01-01",
+          repeatInterval: "month",
+          recurrenceRule: rule,
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+      const active = matcher.getActiveNotifications(tasks, "2025-02-13");
+
+      expect(active).toHaveLength(1);
+      expect(active[0].displayText).toContain("2 days ago");
+    });
+
+    it("does not match excluded or counted-out occurrences", () => {
+      const tasks = [
+        createTask({
+          eventDate: "2025-01-01",
+          repeatInterval: "month",
+          recurrenceRule: { ...rule, count: 3, exDates: ["2025-02-11"] },
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+
+      expect(matcher.getActiveNotifications(tasks, "2025-02-11")).toHaveLength(
+        0,
+      );
+      expect(matcher.getActiveNotifications(tasks, "2025-03-11")).toHaveLength(
+        1,
+      );
+      expect(matcher.getActiveNotifications(tasks, "2025-04-08")).toHaveLength(
+        0,
+      );
+    });
+
+    it("triggers reminders before rule occurrences", () => {
+      const tasks = [
+        createTask({
+          eventDate: "2025-01-01",
+          repeatInterval: "month",
+          recurrenceRule: rule,
+          reminderOffsets: [{ number: 1, unit: "week" }],
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+
+      const active = matcher.getActiveNotifications(tasks, "2025-02-04");
+      expect(active).toHaveLength(1);
+      expect(active[0].displayText).toContain("1 week early");
+      expect(matcher.getActiveNotifications(tasks, "2025-02-05")).toHaveLength(
+        0,
+      );
+    });
+
+    it("shows the rule in the display text", () => {
+      const tasks = [
+        createTask({
+          eventDate: "2025-01-01",
+          repeatInterval: "month",
+          recurrenceRule: rule,
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+      const active = matcher.getActiveNotifications(tasks, "2025-02-11");
+
+      expect(active[0].displayText).toContain("🔁 every month on 2nd Tuesday");
+    });
+  });
+
+  describe("series end conditions", () => {
+    it("stops matching after the until date", () => {
+      const tasks = [
+        createTask({
+          title: "Subscription",
+          eventDate: "2025-01-15",
+          repeatInterval: "month",
+          repeatUntil: "2025-06-30",
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+
+      expect(matcher.getActiveNotifications(tasks, "2025-06-15")).toHaveLength(
+        1,
+      );
+      expect(matcher.getActiveNotifications(tasks, "2025-07-15")).toHaveLength(
+        0,
+      );
+    });
+
+    it("stops matching after the occurrence limit", () => {
+      const tasks = [
+        createTask({
+          eventDate: "2025-01-15",
+          repeatInterval: "month",
+          repeatCount: 3,
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+
+      expect(matcher.getActiveNotifications(tasks, "2025-01-15")).toHaveLength(
+        1,
+      );
+      expect(matcher.getActiveNotifications(tasks, "2025-03-15")).toHaveLength(
+        1,
+      );
+      expect(matcher.getActiveNotifications(tasks, "2025-04-15")).toHaveLength(
+        0,
+      );
+      // Occurrences before the series starts don't count
+      expect(matcher.getActiveNotifications(tasks, "2024-12-15")).toHaveLength(
+        0,
+      );
+    });
+
+    it("counts occurrences on an every N cadence", () => {
+      const tasks = [
+        createTask({
+          eventDate: "2025-01-03",
+          repeatInterval: "week",
+          repeatEvery: 2,
+          repeatCount: 2,
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+
+      expect(matcher.getActiveNotifications(tasks, "2025-01-17")).toHaveLength(
+        1,
+      );
+      expect(matcher.getActiveNotifications(tasks, "2025-01-31")).toHaveLength(
+        0,
+      );
+    });
+
+    it("stops yearly events after the until date", () => {
+      const tasks = [
+        createTask({
+          title: "Contract Renewal",
+          eventDate: "2023-03-01",
+          repeatInterval: "year",
+          repeatUntil: "2025-12-31",
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+
+      expect(matcher.getActiveNotifications(tasks, "2025-03-01")).toHaveLength(
+        1,
+      );
+      expect(matcher.getActiveNotifications(tasks, "2026-03-01")).toHaveLength(
+        0,
+      );
+    });
+
+    it("does not remind about occurrences after the series ends", () => {
+      const tasks = [
+        createTask({
+          eventDate: "2025-01-15",
+          repeatInterval: "month",
+          repeatCount: 2,
+          reminderOffsets: [{ number: 1, unit: "day" }],
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+
+      expect(matcher.getActiveNotifications(tasks, "2025-02-14")).toHaveLength(
+        1,
+      );
+      expect(matcher.getActiveNotifications(tasks, "2025-03-14")).toHaveLength(
+        0,
+      );
+    });
+  });
+
+  describe("reminder offsets", () => {
+    it("triggers reminder 1 day before event", () => {
+      const tasks = [
+        createTask({
+          title: "Meeting",
+          eventDate: "2025-01-15",
+          reminderOffsets: [{ number: 1, unit: "day" }],
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+      const active = matcher.getActiveNotifications(tasks, "2025-01-14");
+
+      expect(active).toHaveLength(1);
+      expect(active[0].displayText).toContain("1 day early");
+    });
+
+    it("uses singular for 1 unit", () => {
+      const tasks = [
+        createTask({
+          title: "Meeting",
+          eventDate: "2025-01-15",
+          reminderOffsets: [{ number: 1, unit: "week" }],
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+      const active = matcher.getActiveNotifications(tasks, "2025-01-08");
+
+      expect(active).toHaveLength(1);
+      expect(active[0].displayText).toContain("1 week early");
+      expect(active[0].displayText).not.toContain("weeks");
+    });
+
+    it("uses plural for multiple units", () => {
+      const tasks = [
+        createTask({
+          title: "Conference",
+          eventDate: "2025-02-01",
+          reminderOffsets: [{ number: 2, unit: "week" }],
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+      const active = matcher.getActiveNotifications(tasks, "2025-01-18");
+
+      expect(active).toHaveLength(1);
+      expect(active[0].displayText).toContain("2 weeks early");
+    });
+
+    it("supports multiple reminders per task", () => {
+      const tasks = [
+        createTask({
+          title: "Big Event",
+          eventDate: "2025-02-01",
+          reminderOffsets: [
+            { number: 1, unit: "week" },
+            { number: 1, unit: "day" },
+          ],
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+
+      // 1 week before
+      const active1 = matcher.getActiveNotifications(tasks, "2025-01-25");
+      expect(active1).toHaveLength(1);
+      expect(active1[0].displayText).toContain("1 week early");
+
+      // 1 day before
+      const active2 = matcher.getActiveNotifications(tasks, "2025-01-31");
+      expect(active2).toHaveLength(1);
+      expect(active2[0].displayText).toContain("1 day early");
+
+      // Not on other days
+      expect(matcher.getActiveNotifications(tasks, "2025-01-20")).toHaveLength(
+        0,
+      );
+    });
+
+    it("triggers multi-digit offsets", () => {
+      const tasks = [
+        createTask({
+          title: "Passport Renewal",
+          eventDate: "2026-09-01",
+          reminderOffsets: [{ number: 18, unit: "month" }],
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+      const active = matcher.getActiveNotifications(tasks, "2025-03-01");
+
+      expect(active).toHaveLength(1);
+      expect(active[0].displayText).toContain("18 months early");
+    });
+
+    it("triggers mixed-unit offsets", () => {
+      const tasks = [
+        createTask({
+          eventDate: "2025-02-01",
+          reminderOffsets: [
+            { number: 1, unit: "week", rest: [{ number: 3, unit: "day" }] },
+          ],
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+      const active = matcher.getActiveNotifications(tasks, "2025-01-22");
+
+      expect(active).toHaveLength(1);
+      expect(active[0].displayText).toContain("1 week 3 days early");
+      expect(matcher.getActiveNotifications(tasks, "2025-01-25")).toHaveLength(
+        0,
+      );
+    });
+
+    it("shows both event and reminder on event day", () => {
+      const tasks = [
+        createTask({
+          title: "Event",
+          eventDate: "2025-01-15",
+          reminderOffsets: [{ number: 1, unit: "day" }],
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+
+      // On the event day, should show the event itself
+      const active = matcher.getActiveNotifications(tasks, "2025-01-15");
+      expect(active).toHaveLength(1);
+      expect(active[0].displayText).toContain("today");
+
+      // On reminder day
+      const activeReminder = matcher.getActiveNotifications(
+        tasks,
+        "2025-01-14",
+      );
+      expect(activeReminder).toHaveLength(1);
+      expect(activeReminder[0].displayText).toContain("1 day early");
+    });
+  });
+
+  describe("follow-up offsets", () => {
+    it("triggers follow-up 1 week after event", () => {
+      const tasks = [
+        createTask({
+          title: "Wedding",
+          eventDate: "2025-01-15",
+          followUpOffsets: [{ number: 1, unit: "week" }],
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+      const active = matcher.getActiveNotifications(tasks, "2025-01-22");
+
+      expect(active).toHaveLength(1);
+      expect(active[0].kind).toBe("followUp");
+      expect(active[0].reminderOffset).toEqual({ number: 1, unit: "week" });
+      expect(active[0].displayText).toContain("1 week after");
+    });
+
+    it("does not trigger on other days", () => {
+      const tasks = [
+        createTask({
+          eventDate: "2025-01-15",
+          followUpOffsets: [{ number: 3, unit: "day" }],
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+
+      expect(matcher.getActiveNotifications(tasks, "2025-01-17")).toHaveLength(
+        1, // lookback for the event itself
+      );
+      expect(
+        matcher
+          .getActiveNotifications(tasks, "2025-01-18")
+          .filter((n) => n.kind === "followUp"),
+      ).toHaveLength(1);
+      expect(matcher.getActiveNotifications(tasks, "2025-01-19")).toHaveLength(
+        0,
+      );
+    });
+
+    it("keeps reminders and follow-ups of the same size apart", () => {
+      const tasks = [
+        createTask({
+          eventDate: "2025-01-15",
+          reminderOffsets: [{ number: 1, unit: "week" }],
+          followUpOffsets: [{ number: 1, unit: "week" }],
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+      const before = matcher.getActiveNotifications(tasks, "2025-01-08");
+      const after = matcher.getActiveNotifications(tasks, "2025-01-22");
+
+      expect(before.map((n) => n.kind)).toEqual(["reminder"]);
+      expect(after.map((n) => n.kind)).toEqual(["followUp"]);
+    });
+
+    it("follows up after each occurrence of a repeating event", () => {
+      const tasks = [
+        createTask({
+          eventDate: "2025-01-31",
+          repeatInterval: "month",
+          followUpOffsets: [{ number: 3, unit: "day" }],
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(EXACT_SETTINGS);
+
+      expect(matcher.getActiveNotifications(tasks, "2025-02-03")[0]?.kind).toBe(
+        "followUp",
+      );
+      expect(matcher.getActiveNotifications(tasks, "2025-04-03")[0]?.kind).toBe(
+        "followUp",
+      );
+    });
+
+    it("counts from the last day of multi-day events", () => {
+      const tasks = [
+        createTask({
+          eventDate: "2025-06-01",
+          eventEndDate: "2025-06-05",
+          followUpOffsets: [{ number: 1, unit: "week" }],
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+      const active = matcher.getActiveNotifications(tasks, "2025-06-12");
+
+      expect(active).toHaveLength(1);
+      expect(active[0].displayText).toContain("1 week after");
+    });
+
+    it("adds hour follow-ups to the event time", () => {
+      const tasks = [
+        createTask({
+          eventDate: "2025-01-15",
+          eventTime: "22:00",
+          followUpOffsets: [{ number: 3, unit: "hour" }],
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+      const active = matcher
+        .getActiveNotifications(tasks, "2025-01-16")
+        .filter((n) => n.kind === "followUp");
+
+      expect(active).toHaveLength(1);
+      expect(active[0].displayText).toContain("3 hours after");
+    });
+  });
+
+  describe("daily countdown reminders", () => {
+    it("shows every day of the window with the days left", () => {
+      const tasks = [
+        createTask({
+          title: "Tax Return",
+          eventDate: "2025-01-15",
+          dailyReminder: { number: 1, unit: "week" },
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+
+      for (let daysLeft = 7; daysLeft >= 1; daysLeft--) {
+        const date = moment("2025-01-15")
+          .subtract(daysLeft, "days")
+          .format("YYYY-MM-DD");
+        const active = matcher.getActiveNotifications(tasks, date);
+        expect(active).toHaveLength(1);
+        expect(active[0].kind).toBe("countdown");
+      }
+
+      const first = matcher.getActiveNotifications(tasks, "2025-01-08");
+      expect(first[0].displayText).toContain("7 days left");
+      const last = matcher.getActiveNotifications(tasks, "2025-01-14");
+      expect(last[0].displayText).toContain("1 day left");
+    });
+
+    it("stops outside the window", () => {
+      const tasks = [
+        createTask({
+          eventDate: "2025-01-15",
+          dailyReminder: { number: 1, unit: "week" },
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+
+      expect(matcher.getActiveNotifications(tasks, "2025-01-07")).toHaveLength(
+        0,
+      );
+      const eventDay = matcher.getActiveNotifications(tasks, "2025-01-15");
+      expect(eventDay.map((n) => n.kind)).toEqual(["event"]);
+    });
+
+    it("combines with a regular reminder", () => {
+      const tasks = [
+        createTask({
+          eventDate: "2025-02-15",
+          reminderOffsets: [{ number: 1, unit: "month" }],
+          dailyReminder: { number: 1, unit: "week" },
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+
+      expect(
+        matcher.getActiveNotifications(tasks, "2025-01-15").map((n) => n.kind),
+      ).toEqual(["reminder"]);
+      expect(matcher.getActiveNotifications(tasks, "2025-01-20")).toHaveLength(
+        0,
+      );
+      expect(
+        matcher.getActiveNotifications(tasks, "2025-02-10")[0]?.displayText,
+      ).toContain("5 days left");
+    });
+
+    it("counts down to the next occurrence of repeating events", () => {
+      const tasks = [
+        createTask({
+          eventDate: "2025-01-31",
+          repeatInterval: "month",
+          dailyReminder: { number: 3, unit: "day" },
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+      const active = matcher.getActiveNotifications(tasks, "2025-03-29");
+
+      expect(active).toHaveLength(1);
+      expect(active[0].displayText).toContain("2 days left");
+    });
+  });
+
+  describe("workday shift", () => {
+    it("moves a weekend event to the previous workday", () => {
+      const tasks = [
+        createTask({ eventDate: "2025-03-15", workdayShift: "previous" }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+      const active = matcher.getActiveNotifications(tasks, "2025-03-14");
+
+      expect(active).toHaveLength(1);
+      expect(active[0].displayText).toContain("today");
+      expect(active[0].displayText).toContain("⏮ workday");
+      expect(matcher.getActiveNotifications(tasks, "2025-03-13")).toEqual([]);
+    });
+
+    it("moves a weekend event to the next workday", () => {
+      const tasks = [
+        createTask({ eventDate: "2025-03-15", workdayShift: "next" }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+
+      expect(matcher.getActiveNotifications(tasks, "2025-03-15")).toEqual([]);
+      const active = matcher.getActiveNotifications(tasks, "2025-03-17");
+      expect(active).toHaveLength(1);
+      expect(active[0].displayText).toContain("today");
+    });
+
+    it("leaves events on workdays alone", () => {
+      const tasks = [
+        createTask({ eventDate: "2025-03-14", workdayShift: "next" }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+
+      expect(matcher.getActiveNotifications(tasks, "2025-03-14")).toHaveLength(
+        1,
+      );
+    });
+
+    it("shifts each occurrence of a repeating event", () => {
+      const tasks = [
+        createTask({
+          eventDate: "2025-01-15",
+          repeatInterval: "month",
+          workdayShift: "previous",
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(EXACT_SETTINGS);
+
+      // 2025-02-15 is a Saturday, 2025-06-15 a Sunday
+      expect(matcher.getActiveNotifications(tasks, "2025-02-14")).toHaveLength(
+        1,
+      );
+      expect(matcher.getActiveNotifications(tasks, "2025-02-15")).toEqual([]);
+      expect(matcher.getActiveNotifications(tasks, "2025-06-13")).toHaveLength(
+        1,
+      );
+      expect(matcher.getActiveNotifications(tasks, "2025-07-15")).toHaveLength(
+        1,
+      );
+    });
+
+    it("works out reminders from the shifted date", () => {
+      const tasks = [
+        createTask({
+          eventDate: "2025-03-15",
+          workdayShift: "previous",
+          reminderOffsets: [{ number: 1, unit: "day" }],
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+      const active = matcher.getActiveNotifications(tasks, "2025-03-13");
+
+      expect(active).toHaveLength(1);
+      expect(active[0].displayText).toContain("1 day early");
+      expect(matcher.getActiveNotifications(tasks, "2025-03-14")).toHaveLength(
+        1,
+      );
+    });
+
+    it("uses the configured non-working weekdays", () => {
+      const tasks = [
+        createTask({ eventDate: "2025-03-14", workdayShift: "next" }),
+      ];
+
+      // Friday and Saturday off
+      const matcher = new NotificationMatcher({
+        ...DEFAULT_SETTINGS,
+        nonWorkingDays: [5, 6],
+      });
+
+      expect(matcher.getActiveNotifications(tasks, "2025-03-14")).toEqual([]);
+      expect(matcher.getActiveNotifications(tasks, "2025-03-16")).toHaveLength(
+        1,
+      );
+    });
+
+    it("shows shifted past events within the lookback window", () => {
+      const tasks = [
+        createTask({ eventDate: "2025-03-15", workdayShift: "previous" }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+      const active = matcher.getActiveNotifications(tasks, "2025-03-16");
+
+      expect(active).toHaveLength(1);
+      expect(active[0].displayText).toContain("2 days ago");
+    });
+  });
+
+  describe("holidays", () => {
+    const christmas = [
+      { date: "2025-12-25", name: "Christmas Day", filePath: "Holidays.md" },
+      { date: "2025-12-26", name: "Boxing Day", filePath: "Holidays.md" },
+    ];
+
+    it("moves shifted events off holidays", () => {
+      const tasks = [
+        createTask({ eventDate: "2025-12-25", workdayShift: "next" }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS, christmas);
+
+      expect(matcher.getActiveNotifications(tasks, "2025-12-25")).toEqual([]);
+      // Skips Boxing Day and the weekend
+      expect(matcher.getActiveNotifications(tasks, "2025-12-29")).toHaveLength(
+        1,
+      );
+    });
+
+    it("ignores holidays for events without a shift", () => {
+      const tasks = [createTask({ eventDate: "2025-12-25" })];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS, christmas);
+
+      expect(matcher.getActiveNotifications(tasks, "2025-12-25")).toHaveLength(
+        1,
+      );
+    });
+
+    it("skips holidays when resolving workday rules", () => {
+      const tasks = [
+        createTask({
+          eventDate: "2025-12-01",
+          repeatInterval: "month",
+          monthlyRule: { ordinal: -1, target: "workday" },
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(EXACT_SETTINGS, [
+        { date: "2025-12-31", name: "New Year's Eve", filePath: "h.md" },
+      ]);
+
+      expect(matcher.getActiveNotifications(tasks, "2025-12-31")).toEqual([]);
+      expect(matcher.getActiveNotifications(tasks, "2025-12-30")).toHaveLength(
+        1,
+      );
+    });
+
+    it("lists the holidays on a date", () => {
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS, christmas);
+
+      expect(matcher.getHolidays("2025-12-26")).toEqual([christmas[1]]);
+      expect(matcher.getHolidays("2025-12-27")).toEqual([]);
+    });
+  });
+
+  describe("short months", () => {
+    const leapDay = createTask({
+      title: "Leap day",
+      eventDate: "2024-02-29",
+      repeatInterval: "year",
+      reminderOffsets: [{ number: 1, unit: "week" }],
+    });
+    const monthEnd = createTask({
+      title: "Month end",
+      eventDate: "2025-01-31",
+      repeatInterval: "month",
+      reminderOffsets: [{ number: 1, unit: "day" }],
+    });
+
+    const getKinds = (
+      task: NotificationTask,
+      date: string,
+      monthEndPolicy: NotificationSettings["monthEndPolicy"],
+    ) =>
+      new NotificationMatcher({ ...DEFAULT_SETTINGS, monthEndPolicy })
+        .getActiveNotifications([task], date)
+        .map((n) => n.kind);
+
+    it("clamps February 29 to February 28 in common years", () => {
+      expect(getKinds(leapDay, "2025-02-28", "clamp")).toEqual(["event"]);
+      expect(getKinds(leapDay, "2025-03-01", "clamp")).toEqual(["event"]);
+      expect(getKinds(leapDay, "2025-02-21", "clamp")).toEqual(["reminder"]);
+    });
+
+    it("counts the lookback from the clamped date", () => {
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+      const active = matcher.getActiveNotifications([leapDay], "2025-03-02");
+
+      expect(active).toHaveLength(1);
+      expect(active[0].displayText).toContain("2 days ago");
+    });
+
+    it("rolls February 29 over to March 1 in common years", () => {
+      expect(getKinds(leapDay, "2025-02-28", "rollOver")).toEqual([]);
+      expect(getKinds(leapDay, "2025-03-01", "rollOver")).toEqual(["event"]);
+      expect(getKinds(leapDay, "2025-02-22", "rollOver")).toEqual(["reminder"]);
+    });
+
+    it("skips February 29 in common years", () => {
+      expect(getKinds(leapDay, "2025-02-28", "skip")).toEqual([]);
+      expect(getKinds(leapDay, "2025-03-01", "skip")).toEqual([]);
+      expect(getKinds(leapDay, "2025-02-21", "skip")).toEqual([]);
+      // The next reminder is for the following leap year
+      expect(getKinds(leapDay, "2028-02-22", "skip")).toEqual(["reminder"]);
+    });
+
+    it("keeps February 29 in leap years under every policy", () => {
+      for (const policy of ["clamp", "rollOver", "skip"] as const) {
+        expect(getKinds(leapDay, "2028-02-29", policy)).toEqual(["event"]);
+        expect(getKinds(leapDay, "2028-02-28", policy)).toEqual([]);
+      }
+    });
+
+    it("counts anniversaries across skipped years", () => {
+      const matcher = new NotificationMatcher({
+        ...DEFAULT_SETTINGS,
+        monthEndPolicy: "skip",
+      });
+      const active = matcher.getActiveNotifications([leapDay], "2028-02-29");
+
+      expect(active[0].displayText).toContain("4th anniversary today");
+    });
+
+    it("clamps the 31st to the end of shorter months", () => {
+      expect(getKinds(monthEnd, "2025-02-28", "clamp")).toEqual(["event"]);
+      expect(getKinds(monthEnd, "2025-04-30", "clamp")).toEqual(["event"]);
+      expect(getKinds(monthEnd, "2025-04-29", "clamp")).toEqual(["reminder"]);
+      expect(getKinds(monthEnd, "2025-05-31", "clamp")).toEqual(["event"]);
+    });
+
+    it("clamps the 31st to February 29 in leap years", () => {
+      const task = { ...monthEnd, eventDate: "2024-01-31" };
+      expect(getKinds(task, "2024-02-29", "clamp")).toEqual(["event"]);
+      expect(getKinds(task, "2024-02-28", "clamp")).toEqual(["reminder"]);
+    });
+
+    it("rolls the 31st over to the 1st of the next month", () => {
+      expect(getKinds(monthEnd, "2025-02-28", "rollOver")).toEqual([
+        "reminder",
+      ]);
+      expect(getKinds(monthEnd, "2025-03-01", "rollOver")).toEqual(["event"]);
+      expect(getKinds(monthEnd, "2025-03-31", "rollOver")).toEqual(["event"]);
+      expect(getKinds(monthEnd, "2025-05-01", "rollOver")).toEqual(["event"]);
+      expect(getKinds(monthEnd, "2025-04-30", "rollOver")).toEqual([
+        "reminder",
+      ]);
+    });
+
+    it("skips months without the 31st", () => {
+      expect(getKinds(monthEnd, "2025-02-28", "skip")).toEqual([]);
+      expect(getKinds(monthEnd, "2025-03-01", "skip")).toEqual([]);
+      expect(getKinds(monthEnd, "2025-03-30", "skip")).toEqual(["reminder"]);
+      expect(getKinds(monthEnd, "2025-03-31", "skip")).toEqual(["event"]);
+      expect(getKinds(monthEnd, "2025-04-30", "skip")).toEqual([]);
+    });
+
+    it("applies the policy on every N months cadences", () => {
+      const task = { ...monthEnd, eventDate: "2024-12-31", repeatEvery: 2 };
+      expect(getKinds(task, "2025-02-28", "clamp")).toEqual(["event"]);
+      expect(getKinds(task, "2025-03-01", "rollOver")).toEqual(["event"]);
+      expect(getKinds(task, "2025-03-31", "rollOver")).toEqual([]);
+      expect(getKinds(task, "2025-04-30", "clamp")).toEqual(["event"]);
+    });
+
+    it("counts rolled-over and skipped months toward the occurrence limit", () => {
+      const task = { ...monthEnd, repeatCount: 2 };
+      expect(getKinds(task, "2025-03-01", "rollOver")).toEqual(["event"]);
+      expect(getKinds(task, "2025-03-31", "rollOver")).toEqual([]);
+      expect(getKinds(task, "2025-02-28", "skip")).toEqual([]);
+      expect(getKinds(task, "2025-03-31", "skip")).toEqual([]);
+    });
+  });
+
+  describe("multi-day events", () => {
+    it("shows the day of the event on each day it covers", () => {
+      const tasks = [
+        createTask({
+          title: "Conference",
+          eventDate: "2025-06-01",
+          eventEndDate: "2025-06-05",
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+
+      const first = matcher.getActiveNotifications(tasks, "2025-06-01");
+      expect(first).toHaveLength(1);
+      expect(first[0].displayText).toContain("day 1 of 5");
+      expect(first[0].displayText).toContain("📆 2025-06-01..2025-06-05");
+
+      const second = matcher.getActiveNotifications(tasks, "2025-06-02");
+      expect(second[0].displayText).toContain("day 2 of 5");
+
+      const last = matcher.getActiveNotifications(tasks, "2025-06-05");
+      expect(last[0].displayText).toContain("day 5 of 5");
+    });
+
+    it("applies the lookback window from the end date", () => {
+      const tasks = [
+        createTask({ eventDate: "2025-06-01", eventEndDate: "2025-06-05" }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+
+      const active = matcher.getActiveNotifications(tasks, "2025-06-07");
+      expect(active).toHaveLength(1);
+      expect(active[0].displayText).toContain("2 days ago");
+      expect(matcher.getActiveNotifications(tasks, "2025-06-09")).toHaveLength(
+        0,
+      );
+    });
+
+    it("does not match before the start date", () => {
+      const tasks = [
+        createTask({ eventDate: "2025-06-01", eventEndDate: "2025-06-05" }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+
+      expect(matcher.getActiveNotifications(tasks, "2025-05-31")).toHaveLength(
+        0,
+      );
+    });
+
+    it("counts reminders back from the start date", () => {
+      const tasks = [
+        createTask({
+          eventDate: "2025-06-01",
+          eventEndDate: "2025-06-05",
+          reminderOffsets: [{ number: 1, unit: "week" }],
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+
+      const active = matcher.getActiveNotifications(tasks, "2025-05-25");
+      expect(active).toHaveLength(1);
+      expect(active[0].displayText).toContain("1 week early");
+    });
+
+    it("repeats multi-day events yearly", () => {
+      const tasks = [
+        createTask({
+          title: "Summer Holiday",
+          eventDate: "2024-07-28",
+          eventEndDate: "2024-08-03",
+          repeatInterval: "year",
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+
+      const active = matcher.getActiveNotifications(tasks, "2025-08-01");
+      expect(active).toHaveLength(1);
+      expect(active[0].displayText).toContain("day 5 of 7");
+    });
+  });
+
+  describe("time of day", () => {
+    it("labels timed events relative to the current time", () => {
+      const tasks = [
+        createTask({ eventDate: "2025-01-15", eventTime: "14:00" }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+
+      const before = matcher.getActiveNotifications(
+        tasks,
+        "2025-01-15",
+        moment("2025-01-15 12:00"),
+      );
+      expect(before).toHaveLength(1);
+      expect(before[0].displayText).toContain("⏰ 14:00");
+      expect(before[0].displayText).toContain("in 2 hours");
+
+      const after = matcher.getActiveNotifications(
+        tasks,
+        "2025-01-15",
+        moment("2025-01-15 14:30"),
+      );
+      expect(after[0].displayText).toContain("started 30 minutes ago");
+    });
+
+    it("shows the time when the reference date is not today", () => {
+      const tasks = [
+        createTask({ eventDate: "2025-01-15", eventTime: "09:30" }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+      const active = matcher.getActiveNotifications(
+        tasks,
+        "2025-01-15",
+        moment("2025-03-01 12:00"),
+      );
+
+      expect(active[0].displayText).toContain("today at 09:30");
+    });
+
+    it("keeps day-based context for past timed events", () => {
+      const tasks = [
+        createTask({ eventDate: "2025-01-14", eventTime: "09:30" }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+      const active = matcher.getActiveNotifications(
+        tasks,
+        "2025-01-15",
+        moment("2025-01-15 12:00"),
+      );
+
+      expect(active[0].displayText).toContain("1 day ago");
+    });
+
+    it("triggers hour reminders on the event day", () => {
+      const tasks = [
+        createTask({
+          eventDate: "2025-01-15",
+          eventTime: "14:00",
+          reminderOffsets: [{ number: 2, unit: "hour" }],
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+      const active = matcher.getActiveNotifications(tasks, "2025-01-15");
+
+      expect(active).toHaveLength(2);
+      expect(active[1].displayText).toContain("2 hours early");
+    });
+
+    it("moves sub-day reminders to the previous day when needed", () => {
+      const tasks = [
+        createTask({
+          eventDate: "2025-01-15",
+          eventTime: "00:30",
+          reminderOffsets: [{ number: 1, unit: "hour" }],
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+      const active = matcher.getActiveNotifications(tasks, "2025-01-14");
+
+      expect(active).toHaveLength(1);
+      expect(active[0].displayText).toContain("1 hour early");
+    });
+
+    it("triggers minute reminders for repeating timed events", () => {
+      const tasks = [
+        createTask({
+          eventDate: "2025-01-13", // Monday
+          eventTime: "09:00",
+          repeatInterval: "week",
+          reminderOffsets: [{ number: 5, unit: "minute" }],
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+      const active = matcher.getActiveNotifications(tasks, "2025-01-20");
+
+      expect(active).toHaveLength(2);
+      expect(active[1].displayText).toContain("5 minutes early");
+    });
+  });
+
+  describe("occurrence numbers", () => {
+    it("shows the age on birthdays", () => {
+      const tasks = [
+        createTask({
+          title: "Alice birthday",
+          eventDate: "1988-04-02",
+          repeatInterval: "year",
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+      const active = matcher.getActiveNotifications(tasks, "2025-04-02");
+
+      expect(active).toHaveLength(1);
+      expect(active[0].occurrenceNumber).toBe(38);
+      expect(active[0].displayText).toContain("*turns 37 today*");
+    });
+
+    it("shows the anniversary within the lookback window", () => {
+      const tasks = [
+        createTask({
+          title: "Work anniversary",
+          eventDate: "2015-03-10",
+          repeatInterval: "year",
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+      const active = matcher.getActiveNotifications(tasks, "2025-03-12");
+
+      expect(active).toHaveLength(1);
+      expect(active[0].displayText).toContain("*10th anniversary, 2 days ago*");
+    });
+
+    it("shows the age in reminders", () => {
+      const tasks = [
+        createTask({
+          title: "Alice birthday",
+          eventDate: "1988-04-02",
+          repeatInterval: "year",
+          reminderOffsets: [{ number: 2, unit: "week" }],
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+      const active = matcher.getActiveNotifications(tasks, "2025-03-19");
+
+      expect(active).toHaveLength(1);
+      expect(active[0].kind).toBe("reminder");
+      expect(active[0].displayText).toContain("*turns 37 in 2 weeks*");
+    });
+
+    it("has no age on the first occurrence", () => {
+      const tasks = [
+        createTask({
+          title: "Launch anniversary",
+          eventDate: "2025-03-15",
+          repeatInterval: "year",
+          reminderOffsets: [{ number: 1, unit: "week" }],
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+      const active = matcher.getActiveNotifications(tasks, "2025-03-08");
+
+      expect(active[0].occurrenceNumber).toBe(1);
+      expect(active[0].displayText).toContain("*1 week early*");
+    });
+
+    it("numbers occurrences of other intervals", () => {
+      const tasks = [
+        createTask({
+          title: "Book club",
+          eventDate: "2025-01-06",
+          repeatInterval: "week",
+          repeatEvery: 2,
+          reminderOffsets: [{ number: 1, unit: "day" }],
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+
+      const event = matcher.getActiveNotifications(tasks, "2025-02-17");
+      expect(event[0].occurrenceNumber).toBe(4);
+      expect(event[0].displayText).toContain("*occurrence #4 today*");
+
+      const reminder = matcher.getActiveNotifications(tasks, "2025-03-02");
+      expect(reminder[0].occurrenceNumber).toBe(5);
+      expect(reminder[0].displayText).toContain("*1 day early, occurrence #5*");
+    });
+
+    it("doesn't number occurrences before the 📆 date", () => {
+      const tasks = [
+        createTask({
+          title: "Book club",
+          eventDate: "2025-06-04",
+          repeatInterval: "week",
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+
+      const event = matcher.getActiveNotifications(tasks, "2025-01-01");
+      expect(event[0].occurrenceNumber).toBeNull();
+      expect(event[0].displayText).toContain("*today*");
+      expect(event[0].displayText).not.toContain("occurrence #");
+    });
+
+    it("numbers monthly rule and RRULE occurrences", () => {
+      const tasks = [
+        createTask({
+          title: "Patch Tuesday",
+          eventDate: "2025-01-14",
+          repeatInterval: "month",
+          monthlyRule: { ordinal: 2, target: 2 },
+        }),
+        createTask({
+          title: "Standup",
+          eventDate: "2025-01-06",
+          recurrenceRule: {
+            freq: "WEEKLY",
+            interval: 1,
+            byDay: [
+              { weekday: 1, ordinal: null },
+              { weekday: 3, ordinal: null },
+            ],
+            byMonthDay: [],
+            byMonth: [],
+            count: null,
+            until: null,
+            exDates: [],
+          },
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+
+      // 2nd Tuesday of April, and the 8th standup (Mon/Wed from Jan 6)
+      expect(
+        matcher.getActiveNotifications([tasks[0]], "2025-04-08")[0]
+          .occurrenceNumber,
+      ).toBe(4);
+      expect(
+        matcher.getActiveNotifications([tasks[1]], "2025-01-29")[0]
+          .occurrenceNumber,
+      ).toBe(8);
+    });
+
+    it("counts occurrences moved to a workday", () => {
+      const tasks = [
+        createTask({
+          title: "Pay day",
+          eventDate: "2025-01-15",
+          repeatInterval: "month",
+          workdayShift: "previous",
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+      // 2025-03-15 is a Saturday, moved to Friday the 14th
+      const active = matcher.getActiveNotifications(tasks, "2025-03-14");
+
+      expect(active[0].occurrenceNumber).toBe(3);
+    });
+
+    it("has no occurrence number for one-time events", () => {
+      const tasks = [createTask({ eventDate: "2025-01-15" })];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+      const active = matcher.getActiveNotifications(tasks, "2025-01-15");
+
+      expect(active[0].occurrenceNumber).toBeNull();
+      expect(active[0].displayText).toContain("*today*");
+    });
+  });
+
+  describe("multiple tasks", () => {
+    it("returns all matching tasks", () => {
+      const tasks = [
+        createTask({ title: "Task 1", eventDate: "2025-01-15" }),
+        createTask({ title: "Task 2", eventDate: "2025-01-15" }),
+        createTask({ title: "Task 3", eventDate: "2025-01-16" }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+      const active = matcher.getActiveNotifications(tasks, "2025-01-15");
+
+      expect(active).toHaveLength(2);
+      expect(active.map((a) => a.task.title)).toContain("Task 1");
+      expect(active.map((a) => a.task.title)).toContain("Task 2");
+    });
+
+    it("combines events and reminders", () => {
+      const tasks = [
+        createTask({
+          title: "Event Today",
+          eventDate: "2025-01-15",
+        }),
+        createTask({
+          title: "Event Tomorrow",
+          eventDate: "2025-01-16",
+          reminderOffsets: [{ number: 1, unit: "day" }],
+        }),
+      ];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+      const active = matcher.getActiveNotifications(tasks, "2025-01-15");
+
+      expect(active).toHaveLength(2);
+      expect(active[0].displayText).toContain("today");
+      expect(active[1].displayText).toContain("1 day early");
+    });
+  });
+
+  describe("edge cases", () => {
+    it("handles empty task list", () => {
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+      const active = matcher.getActiveNotifications([], "2025-01-15");
+
+      expect(active).toHaveLength(0);
+    });
+
+    it("handles tasks with no block ID", () => {
+      const tasks = [createTask({ blockId: "", eventDate: "2025-01-15" })];
+
+      const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+      const active = matcher.getActiveNotifications(tasks, "2025-01-15");
+
+      expect(active).toHaveLength(1);
+    });
+
+    it("respects custom lookback setting", () => {
+      const customSettings = { ...DEFAULT_SETTINGS, lookbackDays: 1 };
+      const tasks = [
+        createTask({ eventDate: "2025-01-13" }), // 2 days ago
+      ];
+
+      const matcher = new NotificationMatcher(customSettings);
+      const active = matcher.getActiveNotifications(tasks, "2025-01-15");
+
+      // Should not match because lookback is only 1 day
+      expect(active).toHaveLength(0);
+    });
+  });
+});
+
+describe("NotificationMatcher.isSeriesEnded", () => {
+  const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+
+  it("never ends one-time or open-ended events", () => {
+    expect(matcher.isSeriesEnded(createTask(), "2030-01-01")).toBe(false);
+    expect(
+      matcher.isSeriesEnded(
+        createTask({ repeatInterval: "year" }),
+        "2030-01-01",
+      ),
+    ).toBe(false);
+  });
+
+  it("ends after the until date", () => {
+    const task = createTask({
+      repeatInterval: "month",
+      repeatUntil: "2025-06-30",
+    });
+    expect(matcher.isSeriesEnded(task, "2025-06-30")).toBe(false);
+    expect(matcher.isSeriesEnded(task, "2025-07-01")).toBe(true);
+  });
+
+  it("ends after the last counted occurrence", () => {
+    const task = createTask({
+      eventDate: "2025-01-15",
+      repeatInterval: "month",
+      repeatEvery: 2,
+      repeatCount: 3,
+    });
+    // Occurrences: Jan 15, Mar 15, May 15
+    expect(matcher.isSeriesEnded(task, "2025-05-15")).toBe(false);
+    expect(matcher.isSeriesEnded(task, "2025-05-16")).toBe(true);
+  });
+
+  it("ends RRULE series with COUNT", () => {
+    const task = createTask({
+      eventDate: "2025-01-06",
+      repeatInterval: "week",
+      recurrenceRule: {
+        freq: "WEEKLY",
+        interval: 1,
+        byDay: [],
+        byMonthDay: [],
+        byMonth: [],
+        count: 3,
+        until: null,
+        exDates: [],
+      },
+    });
+    expect(matcher.isSeriesEnded(task, "2025-01-20")).toBe(false);
+    expect(matcher.isSeriesEnded(task, "2025-01-21")).toBe(true);
+  });
+});
+
+describe("NotificationMatcher.getStaleAcknowledgements", () => {
+  const stale = (
+    tasks: NotificationTask[],
+    acknowledgements: Record<string, string>,
+  ) =>
+    new NotificationMatcher({
+      ...DEFAULT_SETTINGS,
+      acknowledgements,
+    }).getStaleAcknowledgements(tasks, "2025-06-10");
+
+  it("drops keys older than the lookback window", () => {
+    const tasks = [createTask({ repeatInterval: "week" })];
+
+    expect(
+      stale(tasks, {
+        "test.md:1:event@2025-06-07": "2025-06-07",
+        "test.md:1:event@2025-05-31": "2025-05-31",
+        "test.md:1:1-day@2025-06-14": "2025-06-13",
+        "test.md:1:daily-5-day:2025-06-01": "2025-06-01",
+      }),
+    ).toEqual([
+      "test.md:1:event@2025-05-31",
+      "test.md:1:daily-5-day:2025-06-01",
+    ]);
+  });
+
+  it("drops keys without a date", () => {
+    expect(stale([], { "test.md:1:event": "2025-06-09" })).toEqual([
+      "test.md:1:event",
+    ]);
+  });
+
+  it("keeps the longest lookback window of any task", () => {
+    const tasks = [
+      createTask({ lineNumber: 1 }),
+      createTask({ lineNumber: 2, lookbackDays: 14 }),
+    ];
+
+    expect(
+      stale(tasks, {
+        "test.md:1:event@2025-05-31": "2025-05-31",
+        "test.md:3:event@2025-05-20": "2025-05-20",
+      }),
+    ).toEqual(["test.md:3:event@2025-05-20"]);
+  });
+
+  it("keeps the latest 📌 occurrence and the last completion", () => {
+    const tasks = [
+      createTask({ lineNumber: 1, eventDate: "2025-01-15", pinned: true }),
+      createTask({
+        lineNumber: 2,
+        eventDate: "2025-01-15",
+        repeatInterval: "month",
+        repeatAfterDone: true,
+      }),
+    ];
+
+    expect(
+      stale(tasks, {
+        "test.md:1:event@2025-01-15": "2025-02-01",
+        "test.md:2:event@2025-01-15": "2025-01-16",
+        "test.md:2:event@2025-02-16": "2025-02-20",
+      }),
+    ).toEqual(["test.md:2:event@2025-01-15"]);
+  });
+});
+
+describe("NotificationMatcher occurrence engine", () => {
+  const matcher = new NotificationMatcher(EXACT_SETTINGS);
+
+  describe("getOccurrences", () => {
+    it("lists occurrences between two dates in order", () => {
+      const task = createTask({
+        eventDate: "2025-01-31",
+        eventEndDate: "2025-02-01",
+        repeatInterval: "month",
+      });
+
+      expect(matcher.getOccurrences(task, "2025-02-01", "2025-04-30")).toEqual([
+        { date: "2025-02-28", endDate: "2025-03-01", occurrenceNumber: 2 },
+        { date: "2025-03-31", endDate: "2025-04-01", occurrenceNumber: 3 },
+        { date: "2025-04-30", endDate: "2025-05-01", occurrenceNumber: 4 },
+      ]);
+    });
+
+    it("lists a one-time event only in its range", () => {
+      const task = createTask({ eventDate: "2025-01-15" });
+
+      expect(matcher.getOccurrences(task, "2025-01-01", "2025-01-31")).toEqual([
+        { date: "2025-01-15", endDate: null, occurrenceNumber: null },
+      ]);
+      expect(matcher.getOccurrences(task, "2025-01-16", "2025-12-31")).toEqual(
+        [],
+      );
+    });
+  });
+
+  describe("getNextOccurrences", () => {
+    it("lists the next N occurrences", () => {
+      const task = createTask({
+        eventDate: "2025-01-06",
+        repeatInterval: "week",
+        repeatEvery: 2,
+      });
+
+      expect(
+        matcher
+          .getNextOccurrences(task, "2025-01-07", 3)
+          .map((occurrence) => occurrence.date),
+      ).toEqual(["2025-01-20", "2025-02-03", "2025-02-17"]);
+    });
+
+    it("stops at the end of the series", () => {
+      const task = createTask({
+        eventDate: "2025-01-15",
+        repeatInterval: "month",
+        repeatCount: 3,
+      });
+
+      expect(matcher.getNextOccurrences(task, "2025-02-01", 5)).toHaveLength(2);
+    });
+  });
+
+  describe("getInstants", () => {
+    it("lists events, reminders, follow-ups and countdown days in order", () => {
+      const task = createTask({
+        eventDate: "2025-03-15",
+        eventTime: "09:00",
+        reminderOffsets: [{ number: 1, unit: "week" }],
+        followUpOffsets: [{ number: 2, unit: "day" }],
+        dailyReminder: { number: 2, unit: "day" },
+      });
+
+      expect(
+        matcher
+          .getInstants(task, "2025-03-01", "2025-03-31")
+          .map((instant) => [instant.date, instant.time, instant.kind]),
+      ).toEqual([
+        ["2025-03-08", "09:00", "reminder"],
+        ["2025-03-13", null, "countdown"],
+        ["2025-03-14", null, "countdown"],
+        ["2025-03-15", "09:00", "event"],
+        ["2025-03-17", "09:00", "followUp"],
+      ]);
+    });
+
+    it("includes follow-ups of occurrences before the range", () => {
+      const task = createTask({
+        eventDate: "2025-01-15",
+        followUpOffsets: [{ number: 1, unit: "month" }],
+      });
+
+      const instants = matcher.getInstants(task, "2025-02-01", "2025-02-28");
+      expect(instants).toHaveLength(1);
+      expect(instants[0].date).toBe("2025-02-15");
+      expect(instants[0].occurrence.date).toBe("2025-01-15");
+    });
+  });
+
+  describe("getNotificationDates", () => {
+    it("covers each day an occurrence shows, with the lookback window", () => {
+      const task = createTask({
+        eventDate: "2025-01-06",
+        eventEndDate: "2025-01-07",
+        repeatInterval: "week",
+        lookbackDays: 1,
+        reminderOffsets: [{ number: 2, unit: "day" }],
+      });
+
+      expect(
+        matcher.getNotificationDates(task, "2025-01-06", "2025-01-14"),
+      ).toEqual([
+        "2025-01-06",
+        "2025-01-07",
+        "2025-01-08",
+        "2025-01-11",
+        "2025-01-13",
+        "2025-01-14",
+      ]);
+    });
+
+    it("can't index tasks that depend on acknowledgements", () => {
+      expect(
+        matcher.getNotificationDates(
+          createTask({ pinned: true }),
+          "2025-01-01",
+          "2025-01-31",
+        ),
+      ).toBeNull();
+      expect(
+        matcher.getNotificationDates(
+          createTask({ repeatInterval: "month", repeatAfterDone: true }),
+          "2025-01-01",
+          "2025-01-31",
+        ),
+      ).toBeNull();
+    });
+  });
+
+  describe("getNextInstants", () => {
+    it("finds reminders far ahead of their occurrence", () => {
+      const task = createTask({
+        eventDate: "2025-01-15",
+        repeatInterval: "year",
+        reminderOffsets: [{ number: 3, unit: "month" }],
+      });
+
+      expect(
+        matcher
+          .getNextInstants(task, "2025-02-01", 2)
+          .map((instant) => [instant.date, instant.kind]),
+      ).toEqual([
+        ["2025-10-15", "reminder"],
+        ["2026-01-15", "event"],
+      ]);
+    });
+
+    it("returns what is left of a finished series", () => {
+      const task = createTask({
+        eventDate: "2025-01-15",
+        followUpOffsets: [{ number: 6, unit: "month" }],
+      });
+
+      expect(
+        matcher.getNextInstants(task, "2025-02-01", 5).map((i) => i.date),
+      ).toEqual(["2025-07-15"]);
+      expect(matcher.getNextInstants(task, "2025-08-01", 5)).toEqual([]);
+    });
+  });
+
+  describe("agrees with day-by-day matching", () => {
+    // Small seeded generator, so failures can be reproduced
+    const random = (() => {
+      let seed = 20250101;
+      return () => {
+        seed = (seed * 1103515245 + 12345) % 2147483648;
+        return seed / 2147483648;
+      };
+    })();
+    const pick = <T>(items: T[]): T =>
+      items[Math.floor(random() * items.length)] as T;
+
+    const randomOffset = (): ReminderOffset => ({
+      number: pick([1, 2, 3]),
+      unit: pick<ReminderOffset["unit"]>(["hour", "day", "week", "month"]),
+    });
+
+    const randomTask = (): NotificationTask => {
+      const eventDate = moment("2024-11-01")
+        .add(Math.floor(random() * 120), "days")
+        .format("YYYY-MM-DD");
+      const repeatInterval = pick<NotificationTask["repeatInterval"]>([
+        null,
+        "day",
+        "week",
+        "month",
+        "year",
+      ]);
+      return createTask({
+        eventDate,
+        eventEndDate:
+          random() < 0.2
+            ? moment(eventDate).add(2, "days").format("YYYY-MM-DD")
+            : null,
+        eventTime: random() < 0.3 ? "09:30" : null,
+        workdayShift: pick([null, null, "previous", "next"]),
+        repeatInterval,
+        repeatEvery: pick([1, 1, 2, 3]),
+        repeatCount: random() < 0.2 ? pick([2, 4]) : null,
+        monthlyRule:
+          repeatInterval === "month" && random() < 0.3
+            ? { ordinal: pick([1, 2, -1]), target: pick([2, 5, "workday"]) }
+            : null,
+        reminderOffsets: random() < 0.6 ? [randomOffset()] : [],
+        followUpOffsets: random() < 0.4 ? [randomOffset()] : [],
+        dailyReminder: random() < 0.3 ? { number: 5, unit: "day" } : null,
+      });
+    };
+
+    // An independent reference for the engine, which never asks the matcher:
+    // each day is checked for the start of an occurrence the way
+    // eventDateMatches did before the engine, with the cadence, count,
+    // monthly rule and workday shift modifiers added since
+    const isWeekend = (day: moment.Moment) =>
+      day.day() === 0 || day.day() === 6;
+
+    const isCalendarOccurrence = (
+      task: NotificationTask,
+      day: moment.Moment,
+    ): boolean => {
+      const start = moment(task.eventDate);
+      const { repeatInterval, repeatEvery, repeatCount, monthlyRule } = task;
+      if (!repeatInterval) {
+        return day.isSame(start, "day");
+      }
+
+      // Whole cadence units since the 📆 date, and whether the day fits
+      let elapsed: number;
+      let matches: boolean;
+      switch (repeatInterval) {
+        case "day":
+          elapsed = day.diff(start, "days");
+          matches = true;
+          break;
+        case "week":
+          elapsed = Math.floor(day.diff(start, "days") / 7);
+          matches = day.day() === start.day();
+          break;
+        case "month":
+          elapsed =
+            (day.year() - start.year()) * 12 + (day.month() - start.month());
+          if (monthlyRule) {
+            const candidates: number[] = [];
+            const d = day.clone().startOf("month");
+            for (; d.month() === day.month(); d.add(1, "day")) {
+              if (
+                monthlyRule.target === "day" ||
+                (monthlyRule.target === "workday" && !isWeekend(d)) ||
+                monthlyRule.target === d.day()
+              ) {
+                candidates.push(d.date());
+              }
+            }
+            matches =
+              (monthlyRule.ordinal === -1
+                ? candidates[candidates.length - 1]
+                : candidates[monthlyRule.ordinal - 1]) === day.date();
+          } else {
+            // Short months clamp to their last day
+            matches = day.date() === Math.min(start.date(), day.daysInMonth());
+          }
+          break;
+        case "year":
+          elapsed = day.year() - start.year();
+          matches =
+            day.month() === start.month() &&
+            day.date() === Math.min(start.date(), day.daysInMonth());
+          break;
+      }
+
+      if (!matches || elapsed % repeatEvery !== 0) {
+        return false;
+      }
+      // Counted series start on the 📆 date
+      return (
+        repeatCount === null ||
+        (!day.isBefore(start, "day") && elapsed / repeatEvery < repeatCount)
+      );
+    };
+
+    // The days occurrences start on, moved off weekends by workday shifts,
+    // well around the days compared
+    const referenceOccurrences = (task: NotificationTask): string[] => {
+      const days = new Set<string>();
+      const day = moment("2024-08-15");
+      for (; day.isBefore("2025-08-15", "day"); day.add(1, "day")) {
+        if (!isCalendarOccurrence(task, day)) {
+          continue;
+        }
+        const shifted = day.clone();
+        while (task.workdayShift && isWeekend(shifted)) {
+          shifted.add(task.workdayShift === "previous" ? -1 : 1, "day");
+        }
+        days.add(shifted.format("YYYY-MM-DD"));
+      }
+      return Array.from(days).sort();
+    };
+
+    // What notifies on each day, by the reference: the occurrences starting
+    // that day, the first occurrence whose reminder or follow-up for each
+    // offset lands on it, and the countdown to the next occurrence after it
+    const referenceNotifications = (
+      task: NotificationTask,
+    ): Map<string, string[]> => {
+      const occurrences = referenceOccurrences(task);
+      const days = new Map<string, string[]>();
+      const add = (
+        date: string,
+        kind: string,
+        offset: ReminderOffset | null,
+        occurrence: string,
+      ) => {
+        const entries = days.get(date) ?? [];
+        entries.push(
+          `${date} ${kind} ${offset?.number ?? ""}${offset?.unit ?? ""} ${occurrence}`,
+        );
+        days.set(date, entries);
+      };
+
+      for (const occurrence of occurrences) {
+        add(occurrence, "event", null, occurrence);
+      }
+
+      const duration = task.eventEndDate
+        ? moment(task.eventEndDate).diff(task.eventDate, "days")
+        : 0;
+      const offsetKinds: ["reminder" | "followUp", ReminderOffset[]][] = [
+        ["reminder", task.reminderOffsets],
+        ["followUp", task.followUpOffsets],
+      ];
+      for (const [kind, offsets] of offsetKinds) {
+        for (const offset of offsets) {
+          const notified = new Set<string>();
+          for (const occurrence of occurrences) {
+            const instant = moment(
+              `${occurrence} ${task.eventTime ?? "00:00"}`,
+              "YYYY-MM-DD HH:mm",
+            );
+            for (const part of [offset, ...(offset.rest ?? [])]) {
+              if (kind === "reminder") {
+                instant.subtract(part.number, part.unit);
+              } else {
+                instant.add(part.number, part.unit);
+              }
+            }
+            if (kind === "followUp") {
+              instant.add(duration, "days");
+            }
+            const date = instant.format("YYYY-MM-DD");
+            if (!notified.has(date)) {
+              notified.add(date);
+              add(date, kind, offset, occurrence);
+            }
+          }
+        }
+      }
+
+      const window = task.dailyReminder;
+      if (window) {
+        const day = moment("2024-12-01");
+        for (; day.isBefore("2025-05-01", "day"); day.add(1, "day")) {
+          const date = day.format("YYYY-MM-DD");
+          const next = occurrences.find((occurrence) => occurrence > date);
+          if (!next) {
+            continue;
+          }
+          const windowStart = moment(next);
+          for (const part of [window, ...(window.rest ?? [])]) {
+            windowStart.subtract(part.number, part.unit);
+          }
+          if (!day.isBefore(windowStart, "day")) {
+            add(date, "countdown", window, next);
+          }
+        }
+      }
+
+      return days;
+    };
+    const describeInstants = (
+      task: NotificationTask,
+      from: string,
+      to: string,
+    ) =>
+      matcher
+        .getInstants(task, from, to)
+        .map(
+          (i) =>
+            `${i.date} ${i.kind} ${i.offset?.number ?? ""}${i.offset?.unit ?? ""} ${i.occurrence.date}`,
+        )
+        .sort();
+
+    const tasks = Array.from({ length: 40 }, randomTask);
+    const references = new Map(
+      tasks.map((task) => [task, referenceNotifications(task)]),
+    );
+    const describeDay = (task: NotificationTask, date: string): string[] =>
+      references.get(task)?.get(date) ?? [];
+
+    it("lists the same occurrences as checking each day", () => {
+      for (const task of tasks) {
+        expect(
+          matcher
+            .getOccurrences(task, "2025-01-01", "2025-03-31")
+            .map((occurrence) => occurrence.date),
+          JSON.stringify(task),
+        ).toEqual(
+          referenceOccurrences(task).filter(
+            (date) => date >= "2025-01-01" && date <= "2025-03-31",
+          ),
+        );
+      }
+    });
+
+    it("lists the same instants as checking each day", () => {
+      for (const task of tasks) {
+        const expected: string[] = [];
+        const day = moment("2025-01-01");
+        for (let i = 0; i < 90; i++, day.add(1, "day")) {
+          expected.push(...describeDay(task, day.format("YYYY-MM-DD")));
+        }
+
+        expect(
+          describeInstants(task, "2025-01-01", "2025-03-31"),
+          JSON.stringify(task),
+        ).toEqual(expected.sort());
+      }
+    });
+
+    it("indexes every date with notifications", () => {
+      const lookback = new NotificationMatcher({
+        ...DEFAULT_SETTINGS,
+        lookbackDays: 2,
+      });
+      for (const task of tasks) {
+        // Occurrences show for their days and the 2-day lookback window
+        const shown = task.eventEndDate
+          ? moment(task.eventEndDate).diff(task.eventDate, "days") + 2
+          : 2;
+        const occurrences = referenceOccurrences(task);
+
+        const expected: string[] = [];
+        const day = moment("2025-01-01");
+        for (let i = 0; i < 90; i++, day.add(1, "day")) {
+          const date = day.format("YYYY-MM-DD");
+          const from = day.clone().subtract(shown, "days").format("YYYY-MM-DD");
+          const showing = occurrences.some(
+            (occurrence) => occurrence >= from && occurrence <= date,
+          );
+          if (showing || describeDay(task, date).length > 0) {
+            expected.push(date);
+          }
+        }
+
+        expect(
+          lookback.getNotificationDates(task, "2025-01-01", "2025-03-31"),
+          JSON.stringify(task),
+        ).toEqual(expected);
+      }
+    });
+
+    it("lists instants in order", () => {
+      for (const task of tasks) {
+        const keys = matcher
+          .getInstants(task, "2025-01-01", "2025-06-30")
+          .map((i) => `${i.date} ${i.time ?? ""}`);
+        expect(keys).toEqual([...keys].sort());
+      }
+    });
+
+    it("starts the next N where the range listing does", () => {
+      for (const task of tasks) {
+        // List up to the last one found, or far ahead if fewer turned up
+        const next = matcher.getNextInstants(task, "2025-01-01", 5);
+        const listed = matcher.getInstants(
+          task,
+          "2025-01-01",
+          next.length === 5 ? (next[4]?.date ?? "") : "2045-12-31",
+        );
+        expect(next, JSON.stringify(task)).toEqual(listed.slice(0, 5));
+
+        const occurrences = matcher.getNextOccurrences(task, "2025-01-01", 5);
+        expect(occurrences, JSON.stringify(task)).toEqual(
+          matcher
+            .getOccurrences(
+              task,
+              "2025-01-01",
+              occurrences.length === 5
+                ? (occurrences[4]?.date ?? "")
+                : "2045-12-31",
+            )
+            .slice(0, 5),
+        );
+      }
+    });
+  });
+});
+
+describe("NotificationMatcher.getAgenda", () => {
+  const matcher = new NotificationMatcher(DEFAULT_SETTINGS);
+
+  it("groups occurrences by day, in date and time order", () => {
+    const tasks = [
+      createTask({
+        title: "Standup",
+        eventDate: "2025-01-06",
+        eventTime: "09:00",
+        repeatInterval: "week",
+      }),
+      createTask({ title: "Rent", eventDate: "2025-01-08" }),
+      createTask({ title: "Review", eventDate: "2025-01-13" }),
+    ];
+
+    const agenda = matcher.getAgenda(tasks, "2025-01-07", "2025-01-13");
+    expect(
+      agenda.map((day) => [day.date, day.entries.map((e) => e.task.title)]),
+    ).toEqual([
+      ["2025-01-08", ["Rent"]],
+      ["2025-01-13", ["Review", "Standup"]],
+    ]);
+  });
+
+  it("lists reminders in the range under their event", () => {
+    const tasks = [
+      createTask({
+        eventDate: "2025-01-20",
+        reminderOffsets: [
+          { number: 1, unit: "week" },
+          { number: 1, unit: "month" },
+        ],
+      }),
+    ];
+
+    const agenda = matcher.getAgenda(tasks, "2025-01-01", "2025-01-31");
+    expect(agenda).toHaveLength(1);
+    expect(agenda[0]?.entries[0]?.reminders.map((r) => r.date)).toEqual([
+      "2025-01-13",
+    ]);
+  });
+
+  it("leaves out completed tasks", () => {
+    const tasks = [createTask({ eventDate: "2025-01-08", status: "x" })];
+
+    expect(matcher.getAgenda(tasks, "2025-01-01", "2025-01-31")).toEqual([]);
   });
 });
@@ -1,262 +1,1236 @@
 import { describe, it, expect } from "vitest";
 import { TaskParser } from "../parser";
+import { MarkerVocabulary, SyntaxDialect } from "../types";
 
-describe("TaskParser.extractDate", () => {
-  it("extracts date from task text", () => {
-    expect(TaskParser.extractDate("📆 2025-01-15")).toBe("2025-01-15");
-  });
+const DEFAULT_VOCABULARY: MarkerVocabulary = {
+  notify: [],
+  date: [],
+  repeat: [],
+  offset: [],
+};
 
-  it("handles spaces around date emoji", () => {
-    expect(TaskParser.extractDate("📆  2025-01-15")).toBe("2025-01-15");
-    expect(TaskParser.extractDate("📆2025-01-15")).toBe("2025-01-15");
-  });
+const CUSTOM_VOCABULARY: MarkerVocabulary = {
+  notify: ["@notify"],
+  date: ["due:"],
+  repeat: ["every:"],
+  offset: ["remind:"],
+};
+
+/**
+ * Rewrite test input written with the emoji markers into the first spelling
+ * of each marker in a vocabulary
+ */
+const toVocabulary = (text: string, vocabulary: MarkerVocabulary): string => {
+  const [notify] = vocabulary.notify;
+  const [date] = vocabulary.date;
+  const [repeat] = vocabulary.repeat;
+  const [offset] = vocabulary.offset;
 
-  it("extracts date from full task text", () => {
-    expect(TaskParser.extractDate("- [ ] Team Meeting 📆 2025-01-15 🔔")).toBe(
-      "2025-01-15",
+  let result = text;
+  if (notify) result = result.split("🔔").join(notify);
+  if (date) result = result.split("📆").join(date);
+  if (repeat) result = result.split("🔁").join(repeat);
+  if (offset) {
+    result = result.replace(
+      /((?:[0-9][\uFE0F\u200D]?\u20E3)+)\s*(minute|hour|day|week|month|year)/gu,
+      (_match, keycaps: string, unit: string) =>
+        `${offset} ${keycaps.replace(/[^0-9]/g, "")} ${unit}`,
     );
+  }
+  return result;
+};
+
+/**
+ * The text-based TaskParser methods, reading input written in a vocabulary
+ */
+const createParser = (vocabulary: MarkerVocabulary) => {
+  const read = (text: string) =>
+    TaskParser.applyVocabulary(toVocabulary(text, vocabulary), vocabulary);
+
+  return {
+    findProblems: (text: string) => TaskParser.findProblems(read(text)),
+    applyDialects: (text: string, dialects: SyntaxDialect[]) =>
+      TaskParser.applyDialects(read(text), dialects),
+    extractBlockId: (text: string) => TaskParser.extractBlockId(read(text)),
+    extractDailyReminder: (text: string) =>
+      TaskParser.extractDailyReminder(read(text)),
+    extractDate: (text: string) => TaskParser.extractDate(read(text)),
+    extractDoneDate: (text: string) => TaskParser.extractDoneDate(read(text)),
+    extractEndDate: (text: string) => TaskParser.extractEndDate(read(text)),
+    extractFollowUpOffsets: (text: string) =>
+      TaskParser.extractFollowUpOffsets(read(text)),
+    extractLookbackDays: (text: string) =>
+      TaskParser.extractLookbackDays(read(text)),
+    extractMonthlyRule: (text: string) =>
+      TaskParser.extractMonthlyRule(read(text)),
+    extractPinned: (text: string) => TaskParser.extractPinned(read(text)),
+    extractRecurrenceRule: (text: string) =>
+      TaskParser.extractRecurrenceRule(read(text)),
+    extractReminderOffsets: (text: string) =>
+      TaskParser.extractReminderOffsets(read(text)),
+    extractRepeatAfterDone: (text: string) =>
+      TaskParser.extractRepeatAfterDone(read(text)),
+    extractRepeatCount: (text: string) =>
+      TaskParser.extractRepeatCount(read(text)),
+    extractRepeatEvery: (text: string) =>
+      TaskParser.extractRepeatEvery(read(text)),
+    extractRepeatInterval: (text: string) =>
+      TaskParser.extractRepeatInterval(read(text)),
+    extractRepeatUntil: (text: string) =>
+      TaskParser.extractRepeatUntil(read(text)),
+    extractTime: (text: string) => TaskParser.extractTime(read(text)),
+    extractTitle: (text: string) => TaskParser.extractTitle(read(text)),
+    extractWorkdayShift: (text: string) =>
+      TaskParser.extractWorkdayShift(read(text)),
+    parseFrontmatterEvent: (text: string) =>
+      TaskParser.parseFrontmatterEvent(read(text)),
+  };
+};
+
+describe.each([
+  ["default", DEFAULT_VOCABULARY],
+  ["custom", CUSTOM_VOCABULARY],
+])("TaskParser with the %s vocabulary", (_name, vocabulary) => {
+  const parser = createParser(vocabulary);
+
+  describe("TaskParser.extractDate", () => {
+    it("extracts date from task text", () => {
+      expect(parser.extractDate("📆 2025-01-15")).toBe("2025-01-15");
+    });
+
+    it("handles spaces around date emoji", () => {
+      expect(parser.extractDate("📆  2025-01-15")).toBe("2025-01-15");
+      expect(parser.extractDate("📆2025-01-15")).toBe("2025-01-15");
+    });
+
+    it("extracts date from full task text", () => {
+      expect(parser.extractDate("- [ ] Team Meeting 📆 2025-01-15 🔔")).toBe(
+        "2025-01-15",
+      );
+    });
+
+    it("handles missing date", () => {
+      expect(parser.extractDate("no date here")).toBeNull();
+    });
+
+    it("returns date string even if format is invalid (doesn't validate)", () => {
+      // Parser extracts but doesn't validate - moment validates later
+      expect(parser.extractDate("📆 2025-13-99")).toBe("2025-13-99");
+    });
   });
 
-  it("handles missing date", () => {
-    expect(TaskParser.extractDate("no date here")).toBeNull();
+  describe("TaskParser.applyDialects", () => {
+    it("leaves text alone without dialects", () => {
+      const line = "- [ ] Pay rent 📅 2025-05-01 [due:: 2025-05-01]";
+      expect(parser.applyDialects(line, [])).toBe(line);
+    });
+
+    it("reads Tasks plugin dates", () => {
+      const text = parser.applyDialects("- [ ] Pay rent 📅 2025-05-01", [
+        "tasks",
+      ]);
+      expect(parser.extractDate(text)).toBe("2025-05-01");
+      expect(parser.extractTitle(text)).toBe("Pay rent");
+    });
+
+    it("prefers due over scheduled over start dates", () => {
+      const text = parser.applyDialects(
+        "- [ ] Report 🛫 2025-04-01 ⏳ 2025-04-20 📅 2025-04-30 🔁 every week",
+        ["tasks"],
+      );
+      expect(parser.extractDate(text)).toBe("2025-04-30");
+      expect(parser.extractTitle(text)).toBe("Report");
+      expect(parser.extractRepeatInterval(text)).toBe("week");
+
+      const scheduled = parser.applyDialects(
+        "- [ ] Report 🛫 2025-04-01 ⏳ 2025-04-20",
+        ["tasks"],
+      );
+      expect(parser.extractDate(scheduled)).toBe("2025-04-20");
+    });
+
+    it("reads Tasks lines in the Tasks plugin's field order", () => {
+      const text = parser.applyDialects(
+        "- [ ] Pay rent ⏫ 🔁 every week when done ➕ 2025-01-01 🛫 2025-04-01 📅 2025-05-01 ^abc",
+        ["tasks"],
+      );
+      expect(parser.extractTitle(text)).toBe("Pay rent");
+      expect(parser.extractDate(text)).toBe("2025-05-01");
+      expect(parser.extractRepeatInterval(text)).toBe("week");
+      expect(parser.extractRepeatAfterDone(text)).toBe(true);
+      expect(parser.extractBlockId(text)).toBe("abc");
+
+      const monthly = parser.applyDialects(
+        "- [ ] Pay rent 🔁 every month 📅 2025-05-01",
+        ["tasks"],
+      );
+      expect(parser.extractTitle(monthly)).toBe("Pay rent");
+      expect(parser.extractRepeatInterval(monthly)).toBe("month");
+    });
+
+    it("keeps a native date", () => {
+      const text = parser.applyDialects(
+        "- [ ] Report 📆 2025-05-02 📅 2025-04-30 🔔",
+        ["tasks"],
+      );
+      expect(parser.extractDate(text)).toBe("2025-05-02");
+    });
+
+    it("reads Dataview inline fields", () => {
+      const text = parser.applyDialects(
+        "- [ ] Renew passport [due:: 2025-05-01] (repeat:: every 2 years) ^abc",
+        ["dataview"],
+      );
+      expect(parser.extractDate(text)).toBe("2025-05-01");
+      expect(parser.extractTitle(text)).toBe("Renew passport");
+      expect(parser.extractRepeatInterval(text)).toBe("year");
+      expect(parser.extractRepeatEvery(text)).toBe(2);
+      expect(parser.extractBlockId(text)).toBe("abc");
+    });
+
+    it("only reads enabled dialects", () => {
+      const line = "- [ ] Pay rent [due:: 2025-05-01]";
+      expect(parser.applyDialects(line, ["tasks"])).toBe(line);
+      expect(
+        parser.applyDialects("- [ ] Pay rent 📅 2025-05-01", ["dataview"]),
+      ).toBe("- [ ] Pay rent 📅 2025-05-01");
+    });
   });
 
-  it("returns date string even if format is invalid (doesn't validate)", () => {
-    // Parser extracts but doesn't validate - moment validates later
-    expect(TaskParser.extractDate("📆 2025-13-99")).toBe("2025-13-99");
+  describe("TaskParser.extractEndDate", () => {
+    it("extracts the end of a date range", () => {
+      expect(parser.extractEndDate("📆 2025-06-01..2025-06-05")).toBe(
+        "2025-06-05",
+      );
+      expect(parser.extractEndDate("📆 2025-06-01 .. 2025-06-05")).toBe(
+        "2025-06-05",
+      );
+    });
+
+    it("keeps the start as the event date", () => {
+      expect(parser.extractDate("📆 2025-06-01..2025-06-05")).toBe(
+        "2025-06-01",
+      );
+    });
+
+    it("ignores ranges that don't end after the start", () => {
+      expect(parser.extractEndDate("📆 2025-06-05..2025-06-01")).toBeNull();
+      expect(parser.extractEndDate("📆 2025-06-05..2025-06-05")).toBeNull();
+    });
+
+    it("returns null for single dates", () => {
+      expect(parser.extractEndDate("📆 2025-06-01")).toBeNull();
+    });
   });
-});
 
-describe("TaskParser.extractDateFromFilename", () => {
-  it("extracts from simple filename", () => {
-    expect(TaskParser.extractDateFromFilename("2026-01-07.md")).toBe(
-      "2026-01-07",
-    );
+  describe("TaskParser.extractTime", () => {
+    it("extracts time from task text", () => {
+      expect(parser.extractTime("📆 2025-01-15 ⏰ 14:00")).toBe("14:00");
+      expect(parser.extractTime("⏰09:30")).toBe("09:30");
+    });
+
+    it("pads single-digit hours", () => {
+      expect(parser.extractTime("⏰ 9:05")).toBe("09:05");
+    });
+
+    it("rejects invalid times", () => {
+      expect(parser.extractTime("⏰ 24:00")).toBeNull();
+      expect(parser.extractTime("⏰ 12:60")).toBeNull();
+    });
+
+    it("handles missing time", () => {
+      expect(parser.extractTime("📆 2025-01-15")).toBeNull();
+    });
   });
 
-  it("extracts from filename with title", () => {
-    expect(TaskParser.extractDateFromFilename("2026-01-07 My Notes.md")).toBe(
-      "2026-01-07",
-    );
+  describe("TaskParser.extractWorkdayShift", () => {
+    it("extracts the shift direction", () => {
+      expect(parser.extractWorkdayShift("📆 2025-03-15 ⏮ workday")).toBe(
+        "previous",
+      );
+      expect(parser.extractWorkdayShift("📆 2025-03-15 ⏭ workday")).toBe(
+        "next",
+      );
+      expect(parser.extractWorkdayShift("📆 2025-03-15 ⏭️workday")).toBe(
+        "next",
+      );
+    });
+
+    it("returns null without a shift", () => {
+      expect(parser.extractWorkdayShift("📆 2025-03-15")).toBeNull();
+      expect(parser.extractWorkdayShift("📆 2025-03-15 ⏭")).toBeNull();
+    });
   });
 
-  it("extracts from path with directories", () => {
-    expect(TaskParser.extractDateFromFilename("Daily/2026-01-07.md")).toBe(
-      "2026-01-07",
-    );
-    expect(
-      TaskParser.extractDateFromFilename("Notes/Daily/2026-01-07 Meeting.md"),
-    ).toBe("2026-01-07");
+  describe("TaskParser.extractDoneDate", () => {
+    it("extracts the completion date", () => {
+      expect(
+        parser.extractDoneDate(
+          "- [x] Rent 📆 2025-03-01 🔁 month ✅ 2025-03-02",
+        ),
+      ).toBe("2025-03-02");
+    });
+
+    it("returns null for open tasks", () => {
+      expect(parser.extractDoneDate("- [ ] Rent 📆 2025-03-01")).toBeNull();
+    });
   });
 
-  it("handles files without .md extension", () => {
-    expect(TaskParser.extractDateFromFilename("2026-01-07")).toBe("2026-01-07");
+  describe("TaskParser.extractPinned", () => {
+    it("detects the keep-until-acknowledged marker", () => {
+      expect(parser.extractPinned("- [ ] Visa 📆 2025-03-01 📌 🔔")).toBe(true);
+      expect(parser.extractPinned("- [ ] Visa 📆 2025-03-01 🔔")).toBe(false);
+    });
   });
 
-  it("validates date format with moment", () => {
-    // Invalid month
-    expect(TaskParser.extractDateFromFilename("2026-13-99.md")).toBeNull();
-    // Invalid day
-    expect(TaskParser.extractDateFromFilename("2026-01-99.md")).toBeNull();
-    // Invalid format
-    expect(TaskParser.extractDateFromFilename("01-07-2026.md")).toBeNull();
+  describe("TaskParser.extractLookbackDays", () => {
+    it("extracts the lookback window", () => {
+      expect(parser.extractLookbackDays("📆 2025-03-01 ⏪ 14 🔔")).toBe(14);
+      expect(parser.extractLookbackDays("📆 2025-03-01 ⏪️0")).toBe(0);
+    });
+
+    it("returns null without a number of days", () => {
+      expect(parser.extractLookbackDays("📆 2025-03-01 🔔")).toBeNull();
+      expect(parser.extractLookbackDays("📆 2025-03-01 ⏪ 🔔")).toBeNull();
+    });
   });
 
-  it("returns null for no date in filename", () => {
-    expect(TaskParser.extractDateFromFilename("My Notes.md")).toBeNull();
-    expect(TaskParser.extractDateFromFilename("Meeting Notes.md")).toBeNull();
+  describe("TaskParser.extractDateFromFilename", () => {
+    it("extracts from simple filename", () => {
+      expect(TaskParser.extractDateFromFilename("2026-01-07.md")).toBe(
+        "2026-01-07",
+      );
+    });
+
+    it("extracts from filename with title", () => {
+      expect(TaskParser.extractDateFromFilename("2026-01-07 My Notes.md")).toBe(
+        "2026-01-07",
+      );
+    });
+
+    it("extracts from path with directories", () => {
+      expect(TaskParser.extractDateFromFilename("Daily/2026-01-07.md")).toBe(
+        "2026-01-07",
+      );
+      expect(
+        TaskParser.extractDateFromFilename("Notes/Daily/2026-01-07 Meeting.md"),
+      ).toBe("2026-01-07");
+    });
+
+    it("handles files without .md extension", () => {
+      expect(TaskParser.extractDateFromFilename("2026-01-07")).toBe(
+        "2026-01-07",
+      );
+    });
+
+    it("validates date format with moment", () => {
+      // Invalid month
+      expect(TaskParser.extractDateFromFilename("2026-13-99.md")).toBeNull();
+      // Invalid day
+      expect(TaskParser.extractDateFromFilename("2026-01-99.md")).toBeNull();
+      // Invalid format
+      expect(TaskParser.extractDateFromFilename("01-07-2026.md")).toBeNull();
+    });
+
+    it("returns null for no date in filename", () => {
+      expect(TaskParser.extractDateFromFilename("My Notes.md")).toBeNull();
+      expect(TaskParser.extractDateFromFilename("Meeting Notes.md")).toBeNull();
+    });
+
+    it("returns null for partial dates", () => {
+      expect(TaskParser.extractDateFromFilename("2026-01.md")).toBeNull();
+      expect(TaskParser.extractDateFromFilename("2026.md")).toBeNull();
+    });
   });
 
-  it("returns null for partial dates", () => {
-    expect(TaskParser.extractDateFromFilename("2026-01.md")).toBeNull();
-    expect(TaskParser.extractDateFromFilename("2026.md")).toBeNull();
+  describe("TaskParser.extractRepeatInterval", () => {
+    it("extracts day", () => {
+      expect(parser.extractRepeatInterval("🔁 day")).toBe("day");
+    });
+
+    it("extracts week", () => {
+      expect(parser.extractRepeatInterval("🔁 week")).toBe("week");
+    });
+
+    it("extracts month", () => {
+      expect(parser.extractRepeatInterval("🔁 month")).toBe("month");
+    });
+
+    it("extracts year", () => {
+      expect(parser.extractRepeatInterval("🔁 year")).toBe("year");
+    });
+
+    it("handles spaces around repeat emoji", () => {
+      expect(parser.extractRepeatInterval("🔁  week")).toBe("week");
+      expect(parser.extractRepeatInterval("🔁week")).toBe("week");
+    });
+
+    it("extracts from full task text", () => {
+      expect(
+        parser.extractRepeatInterval(
+          "- [ ] Weekly Meeting 📆 2025-01-15 🔁 week",
+        ),
+      ).toBe("week");
+    });
+
+    it("returns null for no repeat interval", () => {
+      expect(parser.extractRepeatInterval("no repeat here")).toBeNull();
+    });
+
+    it("extracts plural units after every", () => {
+      expect(parser.extractRepeatInterval("🔁 every 2 weeks")).toBe("week");
+      expect(parser.extractRepeatInterval("🔁 every 6 months")).toBe("month");
+      expect(parser.extractRepeatInterval("🔁 every year")).toBe("year");
+    });
+
+    it("returns null for invalid interval", () => {
+      expect(parser.extractRepeatInterval("🔁 invalid")).toBeNull();
+    });
+
+    it("reads weekly, monthly and yearly", () => {
+      expect(parser.extractRepeatInterval("🔁 weekly")).toBe("week");
+      expect(parser.extractRepeatInterval("🔁 every monthly")).toBe("month");
+      expect(parser.extractRepeatInterval("🔁 yearly 🔔")).toBe("year");
+    });
+
+    it("doesn't read other words starting with a unit", () => {
+      expect(parser.extractRepeatInterval("🔁 every weekday")).toBeNull();
+      expect(parser.extractRepeatInterval("🔁 dayly")).toBeNull();
+    });
   });
-});
 
-describe("TaskParser.extractRepeatInterval", () => {
-  it("extracts day", () => {
-    expect(TaskParser.extractRepeatInterval("🔁 day")).toBe("day");
+  describe("TaskParser.extractRepeatEvery", () => {
+    it("defaults to 1 for bare units", () => {
+      expect(parser.extractRepeatEvery("🔁 week")).toBe(1);
+      expect(parser.extractRepeatEvery("🔁 every month")).toBe(1);
+    });
+
+    it("extracts the interval count", () => {
+      expect(parser.extractRepeatEvery("🔁 every 2 weeks")).toBe(2);
+      expect(parser.extractRepeatEvery("🔁 every 3 months")).toBe(3);
+      expect(parser.extractRepeatEvery("🔁 every 10 days")).toBe(10);
+    });
+
+    it("pairs with the interval unit", () => {
+      const text = "- [ ] Payroll 📆 2025-01-03 🔁 every 2 weeks 🔔";
+      expect(parser.extractRepeatInterval(text)).toBe("week");
+      expect(parser.extractRepeatEvery(text)).toBe(2);
+    });
+
+    it("reads a count without every", () => {
+      expect(parser.extractRepeatInterval("🔁 3 months")).toBe("month");
+      expect(parser.extractRepeatEvery("🔁 3 month after done")).toBe(3);
+    });
+
+    it("treats a zero count as 1", () => {
+      expect(parser.extractRepeatEvery("🔁 every 0 days")).toBe(1);
+    });
+
+    it("defaults to 1 when there is no repeat", () => {
+      expect(parser.extractRepeatEvery("no repeat here")).toBe(1);
+    });
   });
 
-  it("extracts week", () => {
-    expect(TaskParser.extractRepeatInterval("🔁 week")).toBe("week");
+  describe("TaskParser.extractRepeatAfterDone", () => {
+    it("detects repeats counted from the last completion", () => {
+      expect(parser.extractRepeatAfterDone("🔁 3 month after done")).toBe(true);
+      expect(parser.extractRepeatAfterDone("🔁 every week when done 🔔")).toBe(
+        true,
+      );
+    });
+
+    it("ignores regular repeats and done elsewhere in the title", () => {
+      expect(parser.extractRepeatAfterDone("🔁 3 month")).toBe(false);
+      expect(
+        parser.extractRepeatAfterDone("Check after done 📆 2025-01-01 🔁 week"),
+      ).toBe(false);
+    });
   });
 
-  it("extracts month", () => {
-    expect(TaskParser.extractRepeatInterval("🔁 month")).toBe("month");
+  describe("TaskParser.extractRepeatUntil", () => {
+    it("extracts the end date", () => {
+      expect(parser.extractRepeatUntil("🔁 year 🔚 2027-06-30")).toBe(
+        "2027-06-30",
+      );
+      expect(parser.extractRepeatUntil("🔚2027-06-30")).toBe("2027-06-30");
+    });
+
+    it("returns null without an end date", () => {
+      expect(parser.extractRepeatUntil("🔁 year")).toBeNull();
+    });
   });
 
-  it("extracts year", () => {
-    expect(TaskParser.extractRepeatInterval("🔁 year")).toBe("year");
+  describe("TaskParser.extractRepeatCount", () => {
+    it("extracts the occurrence limit", () => {
+      expect(parser.extractRepeatCount("🔁 month x12")).toBe(12);
+      expect(parser.extractRepeatCount("🔁 every 2 weeks x6")).toBe(6);
+      expect(parser.extractRepeatCount("🔁 month on last fri x3")).toBe(3);
+    });
+
+    it("extracts from full task text", () => {
+      expect(
+        parser.extractRepeatCount(
+          "- [ ] Loan Payment 📆 2025-01-15 🔁 month x12 1️⃣ week 🔔",
+        ),
+      ).toBe(12);
+    });
+
+    it("ignores counts outside the repeat marker", () => {
+      expect(parser.extractRepeatCount("- [ ] Buy 2x4 x12 📆 2025-01-15")).toBe(
+        null,
+      );
+      expect(parser.extractRepeatCount("🔁 month 🔔 x12")).toBeNull();
+    });
+
+    it("returns null for zero or missing counts", () => {
+      expect(parser.extractRepeatCount("🔁 month x0")).toBeNull();
+      expect(parser.extractRepeatCount("🔁 month")).toBeNull();
+    });
   });
 
-  it("handles spaces around repeat emoji", () => {
-    expect(TaskParser.extractRepeatInterval("🔁  week")).toBe("week");
-    expect(TaskParser.extractRepeatInterval("🔁week")).toBe("week");
+  describe("TaskParser.extractMonthlyRule", () => {
+    it("extracts nth weekday", () => {
+      expect(parser.extractMonthlyRule("🔁 month on 2nd tue")).toEqual({
+        ordinal: 2,
+        target: 2,
+      });
+      expect(parser.extractMonthlyRule("🔁 month on first monday")).toEqual({
+        ordinal: 1,
+        target: 1,
+      });
+    });
+
+    it("extracts last weekday", () => {
+      expect(parser.extractMonthlyRule("🔁 month on last fri")).toEqual({
+        ordinal: -1,
+        target: 5,
+      });
+    });
+
+    it("extracts last day and workday", () => {
+      expect(parser.extractMonthlyRule("🔁 month on last day")).toEqual({
+        ordinal: -1,
+        target: "day",
+      });
+      expect(
+        parser.extractMonthlyRule("🔁 every 3 months on last workday"),
+      ).toEqual({ ordinal: -1, target: "workday" });
+      expect(
+        parser.extractMonthlyRule("🔁 month on the last business day"),
+      ).toEqual({ ordinal: -1, target: "workday" });
+    });
+
+    it("extracts from full task text", () => {
+      const text = "- [ ] Patch Tuesday 📆 2025-01-14 🔁 month on 2nd tue 🔔";
+      expect(parser.extractRepeatInterval(text)).toBe("month");
+      expect(parser.extractMonthlyRule(text)).toEqual({
+        ordinal: 2,
+        target: 2,
+      });
+    });
+
+    it("returns null for unknown days", () => {
+      expect(parser.extractMonthlyRule("🔁 month on 2nd foo")).toBeNull();
+      expect(parser.extractMonthlyRule("🔁 month on 2nd mo")).toBeNull();
+    });
+
+    it("returns null without a rule", () => {
+      expect(parser.extractMonthlyRule("🔁 month")).toBeNull();
+      expect(parser.extractMonthlyRule("🔁 week on 2nd tue")).toBeNull();
+    });
   });
 
-  it("extracts from full task text", () => {
-    expect(
-      TaskParser.extractRepeatInterval(
-        "- [ ] Weekly Meeting 📆 2025-01-15 🔁 week",
-      ),
-    ).toBe("week");
+  describe("TaskParser.extractRecurrenceRule", () => {
+    it("extracts a full RRULE", () => {
+      expect(
+        parser.extractRecurrenceRule(
+          "🔁 RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=2TU,-1FR;COUNT=10",
+        ),
+      ).toEqual({
+        freq: "MONTHLY",
+        interval: 2,
+        byDay: [
+          { weekday: 2, ordinal: 2 },
+          { weekday: 5, ordinal: -1 },
+        ],
+        byMonthDay: [],
+        byMonth: [],
+        count: 10,
+        until: null,
+        exDates: [],
+      });
+    });
+
+    it("extracts the inline form without the RRULE prefix", () => {
+      const rule = parser.extractRecurrenceRule(
+        "- [ ] Standup 📆 2025-01-06 🔁 FREQ=WEEKLY;BYDAY=MO,WE,FR 🔔",
+      );
+      expect(rule?.freq).toBe("WEEKLY");
+      expect(rule?.byDay).toEqual([
+        { weekday: 1, ordinal: null },
+        { weekday: 3, ordinal: null },
+        { weekday: 5, ordinal: null },
+      ]);
+    });
+
+    it("extracts BYMONTHDAY and BYMONTH", () => {
+      const rule = parser.extractRecurrenceRule(
+        "RRULE:FREQ=YEARLY;BYMONTH=1,4,7,10;BYMONTHDAY=15,-1",
+      );
+      expect(rule?.byMonth).toEqual([1, 4, 7, 10]);
+      expect(rule?.byMonthDay).toEqual([15, -1]);
+    });
+
+    it("normalizes UNTIL dates", () => {
+      expect(
+        parser.extractRecurrenceRule("RRULE:FREQ=DAILY;UNTIL=20251231")?.until,
+      ).toBe("2025-12-31");
+      expect(
+        parser.extractRecurrenceRule("RRULE:FREQ=DAILY;UNTIL=20251231T235959Z")
+          ?.until,
+      ).toBe("2025-12-31");
+      expect(
+        parser.extractRecurrenceRule("RRULE:FREQ=DAILY;UNTIL=2025-12-31")
+          ?.until,
+      ).toBe("2025-12-31");
+    });
+
+    it("extracts EXDATE from the rule or a separate token", () => {
+      expect(
+        parser.extractRecurrenceRule(
+          "RRULE:FREQ=WEEKLY;EXDATE=20250113,2025-01-20",
+        )?.exDates,
+      ).toEqual(["2025-01-13", "2025-01-20"]);
+      expect(
+        parser.extractRecurrenceRule(
+          "RRULE:FREQ=WEEKLY EXDATE:20250113,20250120",
+        )?.exDates,
+      ).toEqual(["2025-01-13", "2025-01-20"]);
+    });
+
+    it("ignores invalid parts", () => {
+      const rule = parser.extractRecurrenceRule(
+        "RRULE:FREQ=MONTHLY;BYDAY=XX,2TU;BYMONTH=13,6;INTERVAL=0",
+      );
+      expect(rule?.byDay).toEqual([{ weekday: 2, ordinal: 2 }]);
+      expect(rule?.byMonth).toEqual([6]);
+      expect(rule?.interval).toBe(1);
+    });
+
+    it("returns null for unknown frequencies", () => {
+      expect(
+        parser.extractRecurrenceRule("RRULE:FREQ=HOURLY;COUNT=2"),
+      ).toBeNull();
+    });
+
+    it("returns null without a rule", () => {
+      expect(parser.extractRecurrenceRule("🔁 month")).toBeNull();
+    });
   });
 
-  it("returns null for no repeat interval", () => {
-    expect(TaskParser.extractRepeatInterval("no repeat here")).toBeNull();
+  describe("TaskParser.extractReminderOffsets", () => {
+    it("extracts single reminder", () => {
+      expect(parser.extractReminderOffsets("1️⃣ week")).toEqual([
+        { number: 1, unit: "week" },
+      ]);
+    });
+
+    it("extracts multiple reminders", () => {
+      expect(parser.extractReminderOffsets("1️⃣ week 2️⃣ day")).toEqual([
+        { number: 1, unit: "week" },
+        { number: 2, unit: "day" },
+      ]);
+    });
+
+    it("handles reminders in any order", () => {
+      const result = parser.extractReminderOffsets("3️⃣ day 1️⃣ week");
+      expect(result).toHaveLength(2);
+      expect(result).toContainEqual({ number: 3, unit: "day" });
+      expect(result).toContainEqual({ number: 1, unit: "week" });
+    });
+
+    it("supports all units", () => {
+      expect(parser.extractReminderOffsets("1️⃣ day")).toEqual([
+        { number: 1, unit: "day" },
+      ]);
+      expect(parser.extractReminderOffsets("2️⃣ week")).toEqual([
+        { number: 2, unit: "week" },
+      ]);
+      expect(parser.extractReminderOffsets("3️⃣ month")).toEqual([
+        { number: 3, unit: "month" },
+      ]);
+      expect(parser.extractReminderOffsets("4️⃣ year")).toEqual([
+        { number: 4, unit: "year" },
+      ]);
+    });
+
+    it("supports hour and minute units", () => {
+      expect(parser.extractReminderOffsets("1️⃣ hour 3️⃣ minute")).toEqual([
+        { number: 1, unit: "hour" },
+        { number: 3, unit: "minute" },
+      ]);
+    });
+
+    it("handles numbers 1-9", () => {
+      expect(parser.extractReminderOffsets("9️⃣ day")).toEqual([
+        { number: 9, unit: "day" },
+      ]);
+    });
+
+    it("handles multi-digit keycap sequences", () => {
+      expect(parser.extractReminderOffsets("1️⃣0️⃣ day")).toEqual([
+        { number: 10, unit: "day" },
+      ]);
+      expect(parser.extractReminderOffsets("1️⃣8️⃣ month")).toEqual([
+        { number: 18, unit: "month" },
+      ]);
+    });
+
+    it("handles the keycap ten emoji", () => {
+      expect(parser.extractReminderOffsets("🔟 day")).toEqual([
+        { number: 10, unit: "day" },
+      ]);
+    });
+
+    it("ignores zero offsets", () => {
+      expect(parser.extractReminderOffsets("0️⃣ day")).toEqual([]);
+    });
+
+    it("extracts ASCII offsets", () => {
+      expect(parser.extractReminderOffsets("🔔-10d")).toEqual([
+        { number: 10, unit: "day" },
+      ]);
+      expect(parser.extractReminderOffsets("🔔-18mo 🔔-2h")).toEqual([
+        { number: 18, unit: "month" },
+        { number: 2, unit: "hour" },
+      ]);
+    });
+
+    it("extracts mixed-unit ASCII offsets", () => {
+      expect(parser.extractReminderOffsets("🔔-1w3d")).toEqual([
+        { number: 1, unit: "week", rest: [{ number: 3, unit: "day" }] },
+      ]);
+      expect(parser.extractReminderOffsets("🔔-1h30min")).toEqual([
+        { number: 1, unit: "hour", rest: [{ number: 30, unit: "minute" }] },
+      ]);
+    });
+
+    it("ignores malformed ASCII offsets", () => {
+      expect(parser.extractReminderOffsets("🔔-10x")).toEqual([]);
+      expect(parser.extractReminderOffsets("🔔-10days")).toEqual([]);
+      expect(parser.extractReminderOffsets("🔔 -10d")).toEqual([]);
+    });
+
+    it("combines keycap and ASCII offsets", () => {
+      const result = parser.extractReminderOffsets(
+        "- [ ] Passport 📆 2026-09-01 1️⃣8️⃣ month 🔔-1w3d",
+      );
+      expect(result).toEqual([
+        { number: 18, unit: "month" },
+        { number: 1, unit: "week", rest: [{ number: 3, unit: "day" }] },
+      ]);
+    });
+
+    it("handles no reminders", () => {
+      expect(parser.extractReminderOffsets("no reminders")).toEqual([]);
+    });
+
+    it("extracts from full task text", () => {
+      const result = parser.extractReminderOffsets(
+        "- [ ] Big Event 📆 2025-02-01 1️⃣ week 1️⃣ day 🔔",
+      );
+      expect(result).toHaveLength(2);
+      expect(result).toContainEqual({ number: 1, unit: "week" });
+      expect(result).toContainEqual({ number: 1, unit: "day" });
+    });
   });
 
-  it("returns null for invalid interval", () => {
-    expect(TaskParser.extractRepeatInterval("🔁 invalid")).toBeNull();
+  describe("TaskParser.extractFollowUpOffsets", () => {
+    it("extracts keycap follow-ups", () => {
+      expect(parser.extractFollowUpOffsets("➕1️⃣ week")).toEqual([
+        { number: 1, unit: "week" },
+      ]);
+      expect(parser.extractFollowUpOffsets("➕ 1️⃣0️⃣ day")).toEqual([
+        { number: 10, unit: "day" },
+      ]);
+    });
+
+    it("extracts ASCII follow-ups", () => {
+      expect(parser.extractFollowUpOffsets("🔔+3d 🔔+1w3d")).toEqual([
+        { number: 3, unit: "day" },
+        { number: 1, unit: "week", rest: [{ number: 3, unit: "day" }] },
+      ]);
+    });
+
+    it("keeps follow-ups and reminders apart", () => {
+      const text =
+        "- [ ] Wedding 📆 2025-06-14 1️⃣ week ➕1️⃣ week 🔔-3d 🔔+3d 🔔";
+      expect(parser.extractReminderOffsets(text)).toEqual([
+        { number: 1, unit: "week" },
+        { number: 3, unit: "day" },
+      ]);
+      expect(parser.extractFollowUpOffsets(text)).toEqual([
+        { number: 1, unit: "week" },
+        { number: 3, unit: "day" },
+      ]);
+    });
+
+    it("handles no follow-ups", () => {
+      expect(parser.extractFollowUpOffsets("1️⃣ week")).toEqual([]);
+    });
   });
-});
 
-describe("TaskParser.extractReminderOffsets", () => {
-  it("extracts single reminder", () => {
-    expect(TaskParser.extractReminderOffsets("1️⃣ week")).toEqual([
-      { number: 1, unit: "week" },
-    ]);
+  describe("TaskParser.extractDailyReminder", () => {
+    it("extracts the countdown window", () => {
+      expect(parser.extractDailyReminder("🔔 daily 1 week before")).toEqual({
+        number: 1,
+        unit: "week",
+      });
+      expect(parser.extractDailyReminder("🔔 daily 10 days before")).toEqual({
+        number: 10,
+        unit: "day",
+      });
+    });
+
+    it("ignores other reminders", () => {
+      expect(parser.extractDailyReminder("1️⃣ week 🔔")).toBeNull();
+      expect(parser.extractDailyReminder("🔔 daily")).toBeNull();
+      expect(parser.extractDailyReminder("🔔 daily 0 days before")).toBeNull();
+    });
   });
 
-  it("extracts multiple reminders", () => {
-    expect(TaskParser.extractReminderOffsets("1️⃣ week 2️⃣ day")).toEqual([
-      { number: 1, unit: "week" },
-      { number: 2, unit: "day" },
-    ]);
+  describe("TaskParser.parseFrontmatterEvent", () => {
+    it("splits the key from the task syntax", () => {
+      expect(parser.parseFrontmatterEvent("birthday: 🔁 year 1️⃣ week")).toEqual(
+        { key: "birthday", modifiers: "🔁 year 1️⃣ week" },
+      );
+    });
+
+    it("accepts a key on its own", () => {
+      expect(parser.parseFrontmatterEvent("renewal")).toEqual({
+        key: "renewal",
+        modifiers: "",
+      });
+      expect(parser.parseFrontmatterEvent(" renewal : ")).toEqual({
+        key: "renewal",
+        modifiers: "",
+      });
+    });
+
+    it("rejects empty definitions", () => {
+      expect(parser.parseFrontmatterEvent("")).toBeNull();
+      expect(parser.parseFrontmatterEvent(": 🔁 year")).toBeNull();
+    });
   });
 
-  it("handles reminders in any order", () => {
-    const result = TaskParser.extractReminderOffsets("3️⃣ day 1️⃣ week");
-    expect(result).toHaveLength(2);
-    expect(result).toContainEqual({ number: 3, unit: "day" });
-    expect(result).toContainEqual({ number: 1, unit: "week" });
+  describe("TaskParser.extractFrontmatterDate", () => {
+    it("extracts dates", () => {
+      expect(TaskParser.extractFrontmatterDate("1988-04-02")).toBe(
+        "1988-04-02",
+      );
+      expect(TaskParser.extractFrontmatterDate("2026-01-15T09:30")).toBe(
+        "2026-01-15",
+      );
+    });
+
+    it("rejects other values", () => {
+      expect(TaskParser.extractFrontmatterDate("April 2nd")).toBeNull();
+      expect(TaskParser.extractFrontmatterDate("2025-02-30")).toBeNull();
+      expect(TaskParser.extractFrontmatterDate(19880402)).toBeNull();
+      expect(TaskParser.extractFrontmatterDate(undefined)).toBeNull();
+      expect(TaskParser.extractFrontmatterDate(["1988-04-02"])).toBeNull();
+    });
   });
 
-  it("supports all units", () => {
-    expect(TaskParser.extractReminderOffsets("1️⃣ day")).toEqual([
-      { number: 1, unit: "day" },
-    ]);
-    expect(TaskParser.extractReminderOffsets("2️⃣ week")).toEqual([
-      { number: 2, unit: "week" },
-    ]);
-    expect(TaskParser.extractReminderOffsets("3️⃣ month")).toEqual([
-      { number: 3, unit: "month" },
-    ]);
-    expect(TaskParser.extractReminderOffsets("4️⃣ year")).toEqual([
-      { number: 4, unit: "year" },
-    ]);
+  describe("TaskParser.findProblems", () => {
+    it("finds no problems in a well-formed task", () => {
+      expect(
+        parser.findProblems(
+          "- [ ] Standup 📆 2025-01-06 ⏰ 09:30 🔁 week 🔚 2025-12-31 🔔",
+        ),
+      ).toEqual([]);
+    });
+
+    it("reports a missing date", () => {
+      expect(parser.findProblems("- [ ] Call the bank 🔔")).toEqual([
+        {
+          problem: "No 📆 event date",
+          suggestion: "Add the date as 📆 YYYY-MM-DD",
+        },
+      ]);
+    });
+
+    it("reports impossible dates", () => {
+      expect(parser.findProblems("- [ ] Rent 📆 2025-02-30 🔔")).toEqual([
+        {
+          problem: "Event date 2025-02-30 doesn't exist",
+          suggestion: "The last day of that month is 2025-02-28",
+        },
+      ]);
+      expect(parser.findProblems("📆 2025-13-01")[0]?.suggestion).toBe(
+        "Use a month between 01 and 12",
+      );
+    });
+
+    it("reports date ranges that end too early", () => {
+      expect(parser.findProblems("📆 2025-06-05..2025-06-01")).toEqual([
+        {
+          problem: "End date 2025-06-01 isn't after start date 2025-06-05",
+          suggestion: "Use a later end date, or a single date",
+        },
+      ]);
+    });
+
+    it("reports invalid times", () => {
+      expect(parser.findProblems("📆 2025-01-06 ⏰ 25:00")).toHaveLength(1);
+      expect(parser.findProblems("📆 2025-01-06 ⏰ soon")).toHaveLength(1);
+    });
+
+    it("suggests fixes for repeat typos", () => {
+      expect(parser.findProblems("📆 2025-01-06 🔁 daily")).toEqual([
+        {
+          problem: 'Repeat "🔁 daily" isn\'t recognised',
+          suggestion: "Write it as 🔁 day",
+        },
+      ]);
+      expect(
+        parser.findProblems("📆 2025-01-06 🔁 quarterly")[0]?.suggestion,
+      ).toBe("Write it as 🔁 every 3 months");
+      expect(
+        parser.findProblems("📆 2025-01-06 🔁 sometimes")[0]?.suggestion,
+      ).toBe("Use 🔁 day, week, month or year, or 🔁 every 2 weeks");
+    });
+
+    it("reports every weekday with an RRULE fix", () => {
+      expect(parser.findProblems("📆 2025-01-06 🔁 every weekday")).toEqual([
+        {
+          problem: 'Repeat "🔁 every weekday" isn\'t recognised',
+          suggestion: "Write it as 🔁 RRULE:FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR",
+        },
+      ]);
+    });
+
+    it("accepts RRULE repeats", () => {
+      expect(
+        parser.findProblems("📆 2025-01-06 🔁 RRULE:FREQ=WEEKLY;BYDAY=MO"),
+      ).toEqual([]);
+    });
+
+    it("reports invalid end dates", () => {
+      expect(
+        parser.findProblems("📆 2025-01-06 🔁 week 🔚 2025-02-30"),
+      ).toHaveLength(1);
+      expect(
+        parser.findProblems("📆 2025-01-06 🔁 week 🔚 never"),
+      ).toHaveLength(1);
+    });
+
+    it("reports a lookback without a number of days", () => {
+      expect(parser.findProblems("📆 2025-01-06 ⏪ two weeks")).toEqual([
+        {
+          problem: "⏪ isn't followed by a number of days",
+          suggestion: "Write the lookback window as ⏪ 14",
+        },
+      ]);
+      expect(parser.findProblems("📆 2025-01-06 ⏪ 14")).toEqual([]);
+    });
   });
 
-  it("handles numbers 1-9", () => {
-    expect(TaskParser.extractReminderOffsets("9️⃣ day")).toEqual([
-      { number: 9, unit: "day" },
-    ]);
+  describe("TaskParser.extractTitle", () => {
+    it("extracts title before date marker", () => {
+      expect(parser.extractTitle("- [ ] Team Meeting 📆 2025-01-15")).toBe(
+        "Team Meeting",
+      );
+    });
+
+    it("handles various checkbox formats", () => {
+      expect(parser.extractTitle("- [x] Done Task 📆 2025-01-15")).toBe(
+        "Done Task",
+      );
+      expect(parser.extractTitle("* [ ] Bullet Task 📆 2025-01-15")).toBe(
+        "Bullet Task",
+      );
+      expect(parser.extractTitle("- [-] Progress Task 📆 2025-01-15")).toBe(
+        "Progress Task",
+      );
+    });
+
+    it("trims whitespace", () => {
+      expect(parser.extractTitle("- [ ]   Spaced Title   📆 2025-01-15")).toBe(
+        "Spaced Title",
+      );
+    });
+
+    it("handles title with no checkbox", () => {
+      expect(parser.extractTitle("Simple Task 📆 2025-01-15")).toBe(
+        "Simple Task",
+      );
+    });
+
+    it("handles empty title", () => {
+      expect(parser.extractTitle("- [ ] 📆 2025-01-15")).toBe("");
+    });
+
+    it("includes everything before date marker", () => {
+      expect(
+        parser.extractTitle("- [ ] Meeting with @person #tag 📆 2025-01-15"),
+      ).toBe("Meeting with @person #tag");
+    });
   });
 
-  it("handles no reminders", () => {
-    expect(TaskParser.extractReminderOffsets("no reminders")).toEqual([]);
+  describe("TaskParser.extractBlockId", () => {
+    it("extracts block ID from end of line", () => {
+      expect(parser.extractBlockId("task text ^abc123")).toBe("abc123");
+    });
+
+    it("handles alphanumeric block IDs", () => {
+      expect(parser.extractBlockId("task ^abc123def")).toBe("abc123def");
+      expect(parser.extractBlockId("task ^123456")).toBe("123456");
+    });
+
+    it("handles block IDs with hyphens", () => {
+      expect(parser.extractBlockId("task ^my-block-id")).toBe("my-block-id");
+    });
+
+    it("handles trailing whitespace", () => {
+      expect(parser.extractBlockId("task ^abc123  ")).toBe("abc123");
+      expect(parser.extractBlockId("task ^abc123\n")).toBe("abc123");
+    });
+
+    it("returns null for no block ID", () => {
+      expect(parser.extractBlockId("task text")).toBeNull();
+      expect(parser.extractBlockId("task text ^")).toBeNull();
+    });
+
+    it("only matches at end of line", () => {
+      expect(parser.extractBlockId("^abc123 task text")).toBeNull();
+      expect(parser.extractBlockId("task ^abc123 more text")).toBeNull();
+    });
   });
 
-  it("extracts from full task text", () => {
-    const result = TaskParser.extractReminderOffsets(
-      "- [ ] Big Event 📆 2025-02-01 1️⃣ week 1️⃣ day 🔔",
-    );
-    expect(result).toHaveLength(2);
-    expect(result).toContainEqual({ number: 1, unit: "week" });
-    expect(result).toContainEqual({ number: 1, unit: "day" });
+  describe("TaskParser.generateBlockId", () => {
+    it("generates 6-character ID", () => {
+      const id = TaskParser.generateBlockId();
+      expect(id).toHaveLength(6);
+    });
+
+    it("generates alphanumeric lowercase ID", () => {
+      const id = TaskParser.generateBlockId();
+      expect(id).toMatch(/^[a-z0-9]+$/);
+    });
+
+    it("generates unique IDs", () => {
+      const ids = new Set();
+      for (let i = 0; i < 100; i++) {
+        ids.add(TaskParser.generateBlockId());
+      }
+      // Should have 100 unique IDs (probabilistically)
+      expect(ids.size).toBe(100);
+    });
   });
 });
 
-describe("TaskParser.extractTitle", () => {
-  it("extracts title before date marker", () => {
-    expect(TaskParser.extractTitle("- [ ] Team Meeting 📆 2025-01-15")).toBe(
-      "Team Meeting",
-    );
+describe("TaskParser.applyVocabulary", () => {
+  it("rewrites custom markers into emoji", () => {
+    expect(
+      TaskParser.applyVocabulary(
+        "- [ ] Standup due: 2025-01-06 every: week remind: 10 minutes @notify",
+        CUSTOM_VOCABULARY,
+      ),
+    ).toBe("- [ ] Standup 📆 2025-01-06 🔁 week 1️⃣0️⃣ minute 🔔");
   });
 
-  it("handles various checkbox formats", () => {
-    expect(TaskParser.extractTitle("- [x] Done Task 📆 2025-01-15")).toBe(
-      "Done Task",
-    );
-    expect(TaskParser.extractTitle("* [ ] Bullet Task 📆 2025-01-15")).toBe(
-      "Bullet Task",
-    );
-    expect(TaskParser.extractTitle("- [-] Progress Task 📆 2025-01-15")).toBe(
-      "Progress Task",
-    );
+  it("keeps the emoji working", () => {
+    const line = "- [ ] Standup 📆 2025-01-06 🔁 week 1️⃣ day 🔔";
+    expect(TaskParser.applyVocabulary(line, CUSTOM_VOCABULARY)).toBe(line);
+  });
+
+  it("only rewrites markers followed by their value", () => {
+    const line = "- [ ] Check what is due: soon, remind: later";
+    expect(TaskParser.applyVocabulary(line, CUSTOM_VOCABULARY)).toBe(line);
   });
 
-  it("trims whitespace", () => {
+  it("prefers longer tokens", () => {
+    const vocabulary = { ...DEFAULT_VOCABULARY, date: ["on", "on date"] };
     expect(
-      TaskParser.extractTitle("- [ ]   Spaced Title   📆 2025-01-15"),
-    ).toBe("Spaced Title");
+      TaskParser.applyVocabulary("Call on date 2025-01-06", vocabulary),
+    ).toBe("Call 📆 2025-01-06");
   });
+});
 
-  it("handles title with no checkbox", () => {
-    expect(TaskParser.extractTitle("Simple Task 📆 2025-01-15")).toBe(
-      "Simple Task",
+describe("TaskParser.findProblems with misformatted dates", () => {
+  it("suggests the date in YYYY-MM-DD format", () => {
+    expect(TaskParser.findProblems("- [ ] Rent 📆 2025/1/15 🔔")).toEqual([
+      {
+        problem: 'Event date "2025/1/15" isn\'t in YYYY-MM-DD format',
+        suggestion: "Write it as 📆 2025-01-15",
+      },
+    ]);
+  });
+
+  it("falls back to a general suggestion", () => {
+    expect(TaskParser.findProblems("📆 tomorrow")[0]?.suggestion).toBe(
+      "Write the date as 📆 YYYY-MM-DD",
     );
   });
+});
 
-  it("handles empty title", () => {
-    expect(TaskParser.extractTitle("- [ ] 📆 2025-01-15")).toBe("");
+describe("TaskParser.parseBlockRange", () => {
+  it("reads the agenda range in days or weeks", () => {
+    expect(TaskParser.parseBlockRange("range: 14")).toBe(14);
+    expect(TaskParser.parseBlockRange("range: 10 days")).toBe(10);
+    expect(TaskParser.parseBlockRange("Range: 2 Weeks")).toBe(14);
   });
 
-  it("includes everything before date marker", () => {
-    expect(
-      TaskParser.extractTitle("- [ ] Meeting with @person #tag 📆 2025-01-15"),
-    ).toBe("Meeting with @person #tag");
+  it("finds the option among other lines", () => {
+    expect(TaskParser.parseBlockRange("\nrange: 1 week\n")).toBe(7);
   });
-});
 
-describe("TaskParser.extractBlockId", () => {
-  it("extracts block ID from end of line", () => {
-    expect(TaskParser.extractBlockId("task text ^abc123")).toBe("abc123");
+  it("returns null without a usable range", () => {
+    expect(TaskParser.parseBlockRange("")).toBeNull();
+    expect(TaskParser.parseBlockRange("range: 0")).toBeNull();
+    expect(TaskParser.parseBlockRange("range: soon")).toBeNull();
   });
+});
 
-  it("handles alphanumeric block IDs", () => {
-    expect(TaskParser.extractBlockId("task ^abc123def")).toBe("abc123def");
-    expect(TaskParser.extractBlockId("task ^123456")).toBe("123456");
+describe("TaskParser.advanceTask", () => {
+  it("moves the event date", () => {
+    expect(
+      TaskParser.advanceTask(
+        "- [ ] Rent 📆 2025-03-01 🔁 month 🔔 ^abc123",
+        { eventDate: "2025-03-01", eventEndDate: null },
+        { eventDate: "2025-04-01", eventEndDate: null, repeatCount: null },
+        null,
+      ),
+    ).toBe("- [ ] Rent 📆 2025-04-01 🔁 month 🔔 ^abc123");
   });
 
-  it("handles block IDs with hyphens", () => {
-    expect(TaskParser.extractBlockId("task ^my-block-id")).toBe("my-block-id");
+  it("moves dates written in other notations", () => {
+    const to = {
+      eventDate: "2025-06-01",
+      eventEndDate: null,
+      repeatCount: null,
+    };
+    const from = { eventDate: "2025-05-01", eventEndDate: null };
+
+    expect(
+      TaskParser.advanceTask(
+        "- [ ] Rent 📅 2025-05-01 🔁 every month",
+        from,
+        to,
+        null,
+      ),
+    ).toBe("- [ ] Rent 📅 2025-06-01 🔁 every month");
+    expect(
+      TaskParser.advanceTask(
+        "- [ ] Rent [due:: 2025-05-01] @notify",
+        from,
+        to,
+        null,
+      ),
+    ).toBe("- [ ] Rent [due:: 2025-06-01] @notify");
   });
 
-  it("handles trailing whitespace", () => {
-    expect(TaskParser.extractBlockId("task ^abc123  ")).toBe("abc123");
-    expect(TaskParser.extractBlockId("task ^abc123\n")).toBe("abc123");
+  it("leaves the same date in the title alone", () => {
+    const from = { eventDate: "2025-01-10", eventEndDate: null };
+    const to = {
+      eventDate: "2025-01-17",
+      eventEndDate: null,
+      repeatCount: null,
+    };
+
+    expect(
+      TaskParser.advanceTask(
+        "- [ ] Review 2025-01-10 notes 📆 2025-01-10 🔁 week 🔔",
+        from,
+        to,
+        null,
+      ),
+    ).toBe("- [ ] Review 2025-01-10 notes 📆 2025-01-17 🔁 week 🔔");
+    expect(
+      TaskParser.advanceTask(
+        "- [ ] Review 2025-01-10 notes due: 2025-01-10 @notify",
+        from,
+        to,
+        null,
+        ["due:"],
+      ),
+    ).toBe("- [ ] Review 2025-01-10 notes due: 2025-01-17 @notify");
   });
 
-  it("returns null for no block ID", () => {
-    expect(TaskParser.extractBlockId("task text")).toBeNull();
-    expect(TaskParser.extractBlockId("task text ^")).toBeNull();
+  it("moves both ends of a date range", () => {
+    expect(
+      TaskParser.advanceTask(
+        "- [ ] Festival 📆 2025-06-01..2025-06-03 🔁 year 🔔",
+        { eventDate: "2025-06-01", eventEndDate: "2025-06-03" },
+        {
+          eventDate: "2026-06-01",
+          eventEndDate: "2026-06-03",
+          repeatCount: null,
+        },
+        null,
+      ),
+    ).toBe("- [ ] Festival 📆 2026-06-01..2026-06-03 🔁 year 🔔");
   });
 
-  it("only matches at end of line", () => {
-    expect(TaskParser.extractBlockId("^abc123 task text")).toBeNull();
-    expect(TaskParser.extractBlockId("task ^abc123 more text")).toBeNull();
+  it("updates the occurrences left", () => {
+    const from = { eventDate: "2025-01-15", eventEndDate: null };
+    const to = { eventDate: "2025-02-15", eventEndDate: null, repeatCount: 11 };
+
+    expect(
+      TaskParser.advanceTask(
+        "- [ ] Loan 📆 2025-01-15 🔁 month x12 🔔",
+        from,
+        to,
+        12,
+      ),
+    ).toBe("- [ ] Loan 📆 2025-02-15 🔁 month x11 🔔");
+    expect(
+      TaskParser.advanceTask(
+        "- [ ] Loan 📆 2025-01-15 🔁 RRULE:FREQ=MONTHLY;COUNT=12 🔔",
+        from,
+        to,
+        12,
+      ),
+    ).toBe("- [ ] Loan 📆 2025-02-15 🔁 RRULE:FREQ=MONTHLY;COUNT=11 🔔");
   });
 });
 
-describe("TaskParser.generateBlockId", () => {
-  it("generates 6-character ID", () => {
-    const id = TaskParser.generateBlockId();
-    expect(id).toHaveLength(6);
+describe("TaskParser.completeTask", () => {
+  it("checks off the task with a done date", () => {
+    expect(
+      TaskParser.completeTask(
+        "- [ ] Rent 📆 2025-03-01 🔁 month 🔔",
+        "2025-03-02",
+      ),
+    ).toBe("- [x] Rent 📆 2025-03-01 🔁 month 🔔 ✅ 2025-03-02");
+  });
+
+  it("drops the block ID, which belongs to the original line", () => {
+    expect(
+      TaskParser.completeTask(
+        "  * [/] Rent 📆 2025-03-01 🔔 ^abc123",
+        "2025-03-02",
+      ),
+    ).toBe("  * [x] Rent 📆 2025-03-01 🔔 ✅ 2025-03-02");
   });
+});
 
-  it("generates alphanumeric lowercase ID", () => {
-    const id = TaskParser.generateBlockId();
-    expect(id).toMatch(/^[a-z0-9]+$/);
+describe("TaskParser.removeNotificationMarkers", () => {
+  it("removes the bell with the offsets and countdowns written after it", () => {
+    expect(
+      TaskParser.removeNotificationMarkers(
+        "- [x] Rent 📆 2025-03-01 🔁 month 🔔-1w 🔔+3d 🔔 daily 5 days before 🔔 ✅ 2025-03-02",
+      ),
+    ).toBe("- [x] Rent 📆 2025-03-01 🔁 month ✅ 2025-03-02");
   });
 
-  it("generates unique IDs", () => {
-    const ids = new Set();
-    for (let i = 0; i < 100; i++) {
-      ids.add(TaskParser.generateBlockId());
-    }
-    // Should have 100 unique IDs (probabilistically)
-    expect(ids.size).toBe(100);
+  it("removes custom notify markers", () => {
+    expect(
+      TaskParser.removeNotificationMarkers(
+        "- [x] Rent due: 2025-03-01 @notify ✅ 2025-03-02",
+        ["@notify"],
+      ),
+    ).toBe("- [x] Rent due: 2025-03-01 ✅ 2025-03-02");
   });
 });
@@ -0,0 +1,395 @@
+import { describe, it, expect } from "vitest";
+import { moment } from "obsidian";
+import {
+  getLastRuleOccurrence,
+  getNextRuleOccurrence,
+  getRuleOccurrences,
+} from "../rrule";
+import { RecurrenceRule } from "../types";
+
+const createRule = (
+  overrides: Partial<RecurrenceRule> = {},
+): RecurrenceRule => ({
+  freq: "DAILY",
+  interval: 1,
+  byDay: [],
+  byMonthDay: [],
+  byMonth: [],
+  count: null,
+  until: null,
+  exDates: [],
+  ...overrides,
+});
+
+const occurrences = (
+  rule: RecurrenceRule,
+  startDate: string,
+  from: string,
+  to: string,
+): string[] =>
+  getRuleOccurrences(rule, startDate, moment(from), moment(to)).map((d) =>
+    d.format("YYYY-MM-DD"),
+  );
+
+describe("getRuleOccurrences", () => {
+  describe("FREQ and INTERVAL", () => {
+    it("expands daily rules", () => {
+      expect(
+        occurrences(createRule(), "2025-01-01", "2025-01-01", "2025-01-03"),
+      ).toEqual(["2025-01-01", "2025-01-02", "2025-01-03"]);
+    });
+
+    it("expands daily rules with an interval", () => {
+      expect(
+        occurrences(
+          createRule({ interval: 3 }),
+          "2025-01-01",
+          "2025-01-01",
+          "2025-01-10",
+        ),
+      ).toEqual(["2025-01-01", "2025-01-04", "2025-01-07", "2025-01-10"]);
+    });
+
+    it("expands weekly rules on the start weekday", () => {
+      expect(
+        occurrences(
+          createRule({ freq: "WEEKLY", interval: 2 }),
+          "2025-01-03", // Friday
+          "2025-01-01",
+          "2025-02-15",
+        ),
+      ).toEqual(["2025-01-03", "2025-01-17", "2025-01-31", "2025-02-14"]);
+    });
+
+    it("expands monthly rules on the start day, skipping short months", () => {
+      expect(
+        occurrences(
+          createRule({ freq: "MONTHLY" }),
+          "2025-01-31",
+          "2025-01-01",
+          "2025-05-31",
+        ),
+      ).toEqual(["2025-01-31", "2025-03-31", "2025-05-31"]);
+    });
+
+    it("expands yearly rules, skipping February 29 in common years", () => {
+      expect(
+        occurrences(
+          createRule({ freq: "YEARLY" }),
+          "2024-02-29",
+          "2024-01-01",
+          "2028-12-31",
+        ),
+      ).toEqual(["2024-02-29", "2028-02-29"]);
+    });
+
+    it("does not produce dates before the start date", () => {
+      expect(
+        occurrences(
+          createRule({ freq: "WEEKLY" }),
+          "2025-01-15",
+          "2025-01-01",
+          "2025-01-20",
+        ),
+      ).toEqual(["2025-01-15"]);
+    });
+
+    it("skips ahead to distant ranges", () => {
+      expect(
+        occurrences(
+          createRule({ freq: "WEEKLY", interval: 2 }),
+          "2025-01-03",
+          "2030-01-01",
+          "2030-01-14",
+        ),
+      ).toEqual(["2030-01-11"]);
+    });
+  });
+
+  describe("BYDAY", () => {
+    it("expands weekly rules on several weekdays", () => {
+      expect(
+        occurrences(
+          createRule({
+            freq: "WEEKLY",
+            byDay: [
+              { weekday: 1, ordinal: null },
+              { weekday: 3, ordinal: null },
+              { weekday: 5, ordinal: null },
+            ],
+          }),
+          "2025-01-06", // Monday
+          "2025-01-06",
+          "2025-01-12",
+        ),
+      ).toEqual(["2025-01-06", "2025-01-08", "2025-01-10"]);
+    });
+
+    it("selects the nth weekday of the month", () => {
+      expect(
+        occurrences(
+          createRule({ freq: "MONTHLY", byDay: [{ weekday: 2, ordinal: 2 }] }),
+          "2025-01-01",
+          "2025-01-01",
+          "2025-03-31",
+        ),
+      ).toEqual(["2025-01-14", "2025-02-11", "2025-03-11"]);
+    });
+
+    it("selects the last weekday of the month", () => {
+      expect(
+        occurrences(
+          createRule({ freq: "MONTHLY", byDay: [{ weekday: 5, ordinal: -1 }] }),
+          "2025-01-01",
+          "2025-01-01",
+          "2025-03-31",
+        ),
+      ).toEqual(["2025-01-31", "2025-02-28", "2025-03-28"]);
+    });
+
+    it("selects the nth weekday of a month in yearly rules", () => {
+      // US Thanksgiving: 4th Thursday of November
+      expect(
+        occurrences(
+          createRule({
+            freq: "YEARLY",
+            byMonth: [11],
+            byDay: [{ weekday: 4, ordinal: 4 }],
+          }),
+          "2024-01-01",
+          "2024-01-01",
+          "2025-12-31",
+        ),
+      ).toEqual(["2024-11-28", "2025-11-27"]);
+    });
+
+    it("selects the nth weekday of the year without BYMONTH", () => {
+      expect(
+        occurrences(
+          createRule({ freq: "YEARLY", byDay: [{ weekday: 1, ordinal: 1 }] }),
+          "2025-01-01",
+          "2025-01-01",
+          "2025-12-31",
+        ),
+      ).toEqual(["2025-01-06"]);
+    });
+
+    it("filters daily rules by weekday", () => {
+      expect(
+        occurrences(
+          createRule({
+            byDay: [
+              { weekday: 6, ordinal: null },
+              { weekday: 0, ordinal: null },
+            ],
+          }),
+          "2025-01-01",
+          "2025-01-01",
+          "2025-01-12",
+        ),
+      ).toEqual(["2025-01-04", "2025-01-05", "2025-01-11", "2025-01-12"]);
+    });
+  });
+
+  describe("BYMONTHDAY and BYMONTH", () => {
+    it("expands monthly rules on several days", () => {
+      expect(
+        occurrences(
+          createRule({ freq: "MONTHLY", byMonthDay: [1, 15] }),
+          "2025-01-01",
+          "2025-01-01",
+          "2025-02-28",
+        ),
+      ).toEqual(["2025-01-01", "2025-01-15", "2025-02-01", "2025-02-15"]);
+    });
+
+    it("counts negative month days from the end", () => {
+      expect(
+        occurrences(
+          createRule({ freq: "MONTHLY", byMonthDay: [-1] }),
+          "2024-01-01",
+          "2024-01-01",
+          "2024-03-31",
+        ),
+      ).toEqual(["2024-01-31", "2024-02-29", "2024-03-31"]);
+    });
+
+    it("intersects BYMONTHDAY with BYDAY", () => {
+      // Friday the 13th
+      expect(
+        occurrences(
+          createRule({
+            freq: "MONTHLY",
+            byMonthDay: [13],
+            byDay: [{ weekday: 5, ordinal: null }],
+          }),
+          "2025-01-01",
+          "2025-01-01",
+          "2025-12-31",
+        ),
+      ).toEqual(["2025-06-13"]);
+    });
+
+    it("expands yearly rules over BYMONTH", () => {
+      expect(
+        occurrences(
+          createRule({
+            freq: "YEARLY",
+            byMonth: [1, 4, 7, 10],
+            byMonthDay: [15],
+          }),
+          "2025-01-01",
+          "2025-01-01",
+          "2025-12-31",
+        ),
+      ).toEqual(["2025-01-15", "2025-04-15", "2025-07-15", "2025-10-15"]);
+    });
+
+    it("limits monthly rules with BYMONTH", () => {
+      expect(
+        occurrences(
+          createRule({ freq: "MONTHLY", byMonth: [6, 12] }),
+          "2025-01-10",
+          "2025-01-01",
+          "2025-12-31",
+        ),
+      ).toEqual(["2025-06-10", "2025-12-10"]);
+    });
+  });
+
+  describe("COUNT, UNTIL and EXDATE", () => {
+    it("stops after COUNT occurrences", () => {
+      expect(
+        occurrences(
+          createRule({ freq: "WEEKLY", count: 3 }),
+          "2025-01-06",
+          "2025-01-01",
+          "2025-12-31",
+        ),
+      ).toEqual(["2025-01-06", "2025-01-13", "2025-01-20"]);
+    });
+
+    it("counts from the start date even when the range starts later", () => {
+      expect(
+        occurrences(
+          createRule({ freq: "WEEKLY", count: 3 }),
+          "2025-01-06",
+          "2025-01-15",
+          "2025-12-31",
+        ),
+      ).toEqual(["2025-01-20"]);
+    });
+
+    it("stops after UNTIL (inclusive)", () => {
+      expect(
+        occurrences(
+          createRule({ freq: "MONTHLY", until: "2025-03-15" }),
+          "2025-01-15",
+          "2025-01-01",
+          "2025-12-31",
+        ),
+      ).toEqual(["2025-01-15", "2025-02-15", "2025-03-15"]);
+    });
+
+    it("removes EXDATE occurrences without extending COUNT", () => {
+      expect(
+        occurrences(
+          createRule({ freq: "WEEKLY", count: 3, exDates: ["2025-01-13"] }),
+          "2025-01-06",
+          "2025-01-01",
+          "2025-12-31",
+        ),
+      ).toEqual(["2025-01-06", "2025-01-20"]);
+    });
+  });
+
+  it("terminates for rules that never produce a date", () => {
+    expect(
+      occurrences(
+        createRule({ freq: "YEARLY", byMonth: [2], byMonthDay: [30] }),
+        "2025-01-01",
+        "2025-01-01",
+        "2030-12-31",
+      ),
+    ).toEqual([]);
+  });
+});
+
+describe("getNextRuleOccurrence", () => {
+  const next = (rule: RecurrenceRule, startDate: string, from: string) =>
+    getNextRuleOccurrence(rule, startDate, moment(from))?.format(
+      "YYYY-MM-DD",
+    ) ?? null;
+
+  it("finds leap days years ahead", () => {
+    const leapDay = createRule({
+      freq: "YEARLY",
+      byMonth: [2],
+      byMonthDay: [29],
+    });
+    expect(next(leapDay, "2024-02-29", "2024-03-01")).toBe("2028-02-29");
+    // 2100 isn't a leap year, so the next one after 2096 is in 2104
+    expect(next(leapDay, "2024-02-29", "2096-03-01")).toBe("2104-02-29");
+  });
+
+  it("returns null after the end of the series", () => {
+    expect(
+      next(
+        createRule({ freq: "MONTHLY", count: 3 }),
+        "2025-01-15",
+        "2025-03-16",
+      ),
+    ).toBeNull();
+    expect(
+      next(
+        createRule({ freq: "YEARLY", until: "2026-12-31" }),
+        "2025-01-15",
+        "2026-01-16",
+      ),
+    ).toBeNull();
+  });
+
+  it("terminates for rules that never produce a date", () => {
+    expect(
+      next(
+        createRule({ freq: "YEARLY", byMonth: [2], byMonthDay: [30] }),
+        "2025-01-01",
+        "2025-01-01",
+      ),
+    ).toBeNull();
+  });
+});
+
+describe("getLastRuleOccurrence", () => {
+  it("returns the last occurrence of a COUNT rule", () => {
+    expect(
+      getLastRuleOccurrence(
+        createRule({ freq: "MONTHLY", count: 12 }),
+        "2025-01-15",
+      )?.format("YYYY-MM-DD"),
+    ).toBe("2025-12-15");
+  });
+
+  it("returns the last occurrence of an UNTIL rule", () => {
+    expect(
+      getLastRuleOccurrence(
+        createRule({ freq: "WEEKLY", until: "2025-01-31" }),
+        "2025-01-06",
+      )?.format("YYYY-MM-DD"),
+    ).toBe("2025-01-27");
+  });
+
+  it("returns null when the rule never produces a date", () => {
+    expect(
+      getLastRuleOccurrence(
+        createRule({
+          freq: "YEARLY",
+          byMonth: [2],
+          byMonthDay: [30],
+          count: 2,
+        }),
+        "2025-01-01",
+      ),
+    ).toBeNull();
+  });
+});
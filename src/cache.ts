@@ -1,15 +1,27 @@
-import { App, TFile, ListItemCache } from "obsidian";
-import { NotificationTask } from "./types";
+import { App, TFile, ListItemCache, FrontMatterCache, moment } from "obsidian";
+import { NotificationTask, ParseDiagnostic } from "./types";
 import { TaskParser } from "./parser";
 import { BlockIdManager } from "./blockid-manager";
 import type NotificationPlugin from "./main";
 import { Logger } from "./logger";
 import { NotificationSettings } from "./settings";
 import { shouldExcludeFile as shouldExcludeFilePath } from "./path-utils";
+import { FREQUENCY_UNITS } from "./rrule";
+import { NotificationMatcher } from "./matcher";
+
+// Days before and after today covered by the date index. Notify blocks for
+// dates outside it (e.g. old daily notes) check every task instead.
+const INDEX_DAYS_BEFORE = 30;
+const INDEX_DAYS_AFTER = 90;
 
 export class NotificationCache {
   private app: App;
   private cache: Map<string, NotificationTask[]>; // filePath -> tasks
+  private diagnostics: Map<string, ParseDiagnostic[]>; // filePath -> problems
+  private dateIndex: Map<string, Map<string, NotificationTask[]>>; // date -> filePath -> tasks
+  private indexedDates: Map<string, Set<string>>; // filePath -> dates in dateIndex
+  private unindexedTasks: Map<string, NotificationTask[]>; // filePath -> tasks checked on every date
+  private indexWindow: { today: string; start: string; end: string } | null;
   private blockIdManager: BlockIdManager;
   private plugin: NotificationPlugin;
   private logger: Logger;
@@ -24,6 +36,11 @@ export class NotificationCache {
   ) {
     this.app = app;
     this.cache = new Map();
+    this.diagnostics = new Map();
+    this.dateIndex = new Map();
+    this.indexedDates = new Map();
+    this.unindexedTasks = new Map();
+    this.indexWindow = null;
     this.blockIdManager = blockIdManager;
     this.plugin = plugin;
     this.logger = logger;
@@ -78,6 +95,8 @@ export class NotificationCache {
     if (this.shouldExcludeFile(file.path)) {
       this.logger.debug(`File is excluded, removing from cache: ${file.path}`);
       this.cache.delete(file.path);
+      this.diagnostics.delete(file.path);
+      this.unindexFile(file.path);
       this.plugin.refreshAllNotifications();
       return;
     }
@@ -85,10 +104,15 @@ export class NotificationCache {
     // Get parsed metadata from Obsidian's cache
     const fileCache = this.app.metadataCache.getFileCache(file);
     const listItems = fileCache?.listItems || [];
+    const frontmatter = fileCache?.frontmatter;
+    const hasFrontmatterEvents =
+      frontmatter !== undefined && this.settings.frontmatterEvents.length > 0;
 
-    // If no list items at all, remove from cache and return
-    if (listItems.length === 0) {
+    // If no list items or frontmatter events at all, remove from cache and return
+    if (listItems.length === 0 && !hasFrontmatterEvents) {
       this.cache.delete(file.path);
+      this.diagnostics.delete(file.path);
+      this.unindexFile(file.path);
       return;
     }
 
@@ -96,11 +120,33 @@ export class NotificationCache {
     const content = await this.app.vault.read(file);
     const lines = content.split("\n");
 
-    // Parse tasks from metadata
-    const tasks = this.parseTasksFromMetadata(lines, listItems, file.path);
+    // Parse tasks from metadata, collecting problems with malformed ones
+    const diagnostics: ParseDiagnostic[] = [];
+    const tasks = this.parseTasksFromMetadata(
+      lines,
+      listItems,
+      file.path,
+      diagnostics,
+    );
+    if (diagnostics.length > 0) {
+      this.diagnostics.set(file.path, diagnostics);
+    } else {
+      this.diagnostics.delete(file.path);
+    }
+    if (frontmatter && hasFrontmatterEvents) {
+      tasks.push(
+        ...this.parseTasksFromFrontmatter(
+          lines,
+          frontmatter,
+          fileCache?.frontmatterPosition?.end.line ?? 0,
+          file,
+        ),
+      );
+    }
 
     if (tasks.length > 0) {
       this.cache.set(file.path, tasks);
+      this.indexFile(file.path, tasks);
 
       // Process any newly queued tasks immediately (for real-time updates)
       if (this.blockIdManager.hasQueuedTasks()) {
@@ -109,6 +155,7 @@ export class NotificationCache {
     } else {
       // Remove from cache if no notification tasks found
       this.cache.delete(file.path);
+      this.unindexFile(file.path);
     }
 
     // Trigger refresh of all notification blocks
@@ -120,6 +167,8 @@ export class NotificationCache {
    */
   removeFile(filePath: string): void {
     this.cache.delete(filePath);
+    this.diagnostics.delete(filePath);
+    this.unindexFile(filePath);
   }
 
   /**
@@ -134,12 +183,160 @@ export class NotificationCache {
   }
 
   /**
-   * Parse notification tasks from metadata
+   * Get the tasks that may have notifications on a date, looked up in the
+   * date index. Falls back to all tasks for dates outside the index window.
+   */
+  getTasksForDate(date: string): NotificationTask[] {
+    return this.getTasksBetween(date, date);
+  }
+
+  /**
+   * Get the tasks that may have notifications between two dates (inclusive),
+   * each once. Falls back to all tasks for ranges outside the index window.
+   */
+  getTasksBetween(from: string, to: string): NotificationTask[] {
+    // The window rolls along with today
+    const today = moment().format("YYYY-MM-DD");
+    if (this.indexWindow?.today !== today) {
+      this.reindex();
+    }
+    const window = this.indexWindow;
+    if (!window || from < window.start || to > window.end) {
+      return this.getAllTasks();
+    }
+
+    const tasks = new Set<NotificationTask>();
+    for (const day = moment(from); !day.isAfter(to, "day"); day.add(1, "day")) {
+      const date = day.format("YYYY-MM-DD");
+      for (const fileTasks of this.dateIndex.get(date)?.values() ?? []) {
+        fileTasks.forEach((task) => tasks.add(task));
+      }
+    }
+    for (const fileTasks of this.unindexedTasks.values()) {
+      fileTasks.forEach((task) => tasks.add(task));
+    }
+    return Array.from(tasks);
+  }
+
+  /**
+   * Rebuild the date index for a window around today, e.g. after settings or
+   * holidays that move occurrences have changed
+   */
+  reindex(): void {
+    const today = moment();
+    this.indexWindow = {
+      today: today.format("YYYY-MM-DD"),
+      start: today
+        .clone()
+        .subtract(INDEX_DAYS_BEFORE, "days")
+        .format("YYYY-MM-DD"),
+      end: today.clone().add(INDEX_DAYS_AFTER, "days").format("YYYY-MM-DD"),
+    };
+    this.dateIndex.clear();
+    this.indexedDates.clear();
+    this.unindexedTasks.clear();
+
+    for (const [filePath, tasks] of this.cache) {
+      this.indexFile(filePath, tasks);
+    }
+  }
+
+  /**
+   * Add a file's tasks to the date index, replacing what it had there
+   */
+  private indexFile(filePath: string, tasks: NotificationTask[]): void {
+    const window = this.indexWindow;
+    if (!window) {
+      // Built on first lookup, from the whole cache
+      return;
+    }
+
+    const matcher = new NotificationMatcher(
+      this.settings,
+      this.plugin.holidays.getAllHolidays(),
+    );
+    const byDate = new Map<string, NotificationTask[]>();
+    const unindexed: NotificationTask[] = [];
+    for (const task of tasks) {
+      const dates = matcher.getNotificationDates(
+        task,
+        window.start,
+        window.end,
+      );
+      if (!dates) {
+        unindexed.push(task);
+        continue;
+      }
+      for (const date of dates) {
+        const dateTasks = byDate.get(date) ?? [];
+        dateTasks.push(task);
+        byDate.set(date, dateTasks);
+      }
+    }
+
+    // Update entries in place, so files keep their order on each date
+    for (const date of this.indexedDates.get(filePath) ?? []) {
+      if (!byDate.has(date)) {
+        this.removeFromDate(date, filePath);
+      }
+    }
+    for (const [date, dateTasks] of byDate) {
+      const files =
+        this.dateIndex.get(date) ?? new Map<string, NotificationTask[]>();
+      files.set(filePath, dateTasks);
+      this.dateIndex.set(date, files);
+    }
+    this.indexedDates.set(filePath, new Set(byDate.keys()));
+
+    if (unindexed.length > 0) {
+      this.unindexedTasks.set(filePath, unindexed);
+    } else {
+      this.unindexedTasks.delete(filePath);
+    }
+  }
+
+  /**
+   * Remove a file's tasks from the date index
+   */
+  private unindexFile(filePath: string): void {
+    for (const date of this.indexedDates.get(filePath) ?? []) {
+      this.removeFromDate(date, filePath);
+    }
+    this.indexedDates.delete(filePath);
+    this.unindexedTasks.delete(filePath);
+  }
+
+  /**
+   * Remove a file's tasks from one date of the index
+   */
+  private removeFromDate(date: string, filePath: string): void {
+    const files = this.dateIndex.get(date);
+    files?.delete(filePath);
+    if (files?.size === 0) {
+      this.dateIndex.delete(date);
+    }
+  }
+
+  /**
+   * Get the problems found in malformed notification tasks across all files
+   */
+  getAllDiagnostics(): ParseDiagnostic[] {
+    const allDiagnostics: ParseDiagnostic[] = [];
+    for (const diagnostics of this.diagnostics.values()) {
+      allDiagnostics.push(...diagnostics);
+    }
+    return allDiagnostics;
+  }
+
+  /**
+   * Parse notification tasks from metadata, adding any problems with
+   * malformed tasks to diagnostics
    */
   private parseTasksFromMetadata(
     lines: string[],
     listItems: ListItemCache[],
     filePath: string,
+    diagnostics: ParseDiagnostic[],
   ): NotificationTask[] {
     const tasks: NotificationTask[] = [];
 
@@ -154,36 +351,46 @@ export class NotificationCache {
       const line = lines[lineNumber];
       if (!line) continue;
 
-      // Check if it has the notification bell
-      if (!TaskParser.hasNotificationMarker(line)) {
+      // Read user-chosen markers and other plugins' notations as our own syntax
+      const native = TaskParser.applyVocabulary(
+        line,
+        this.settings.markerVocabulary,
+      );
+      const text = TaskParser.applyDialects(
+        native,
+        this.settings.syntaxDialects,
+      );
+
+      // Check if it has the notification bell (tasks written in another
+      // dialect don't need one)
+      if (!TaskParser.hasNotificationMarker(native) && text === native) {
         continue;
       }
 
-      // Extract all components using TaskParser
-      const title = TaskParser.extractTitle(line);
-      const eventDate = TaskParser.extractDate(line);
-      const repeatInterval = TaskParser.extractRepeatInterval(line);
-      const reminderOffsets = TaskParser.extractReminderOffsets(line);
-      const blockId = TaskParser.extractBlockId(line);
+      for (const problem of TaskParser.findProblems(text)) {
+        diagnostics.push({ ...problem, filePath, lineNumber: lineNumber + 1 });
+      }
 
-      // Only add if we have at least a date
-      if (!eventDate) {
+      // Only add if we have at least a (real) date
+      const eventDate = TaskParser.extractDate(text);
+      if (!eventDate || !TaskParser.isValidDate(eventDate)) {
         continue;
       }
 
-      const task: NotificationTask = {
+      const task = this.createTask(
         filePath,
-        lineNumber: lineNumber + 1, // Store as 1-indexed
-        blockId: blockId || "",
-        title,
+        lineNumber + 1, // Store as 1-indexed
+        TaskParser.extractTitle(text),
         eventDate,
-        repeatInterval,
-        reminderOffsets,
-        originalText: line,
-      };
+        text,
+      );
+      task.blockId = TaskParser.extractBlockId(line) || "";
+      task.status = item.task;
+      task.originalText = line;
 
-      // Queue task for block ID generation if missing
-      if (!task.blockId) {
+      // Queue task for block ID generation if missing. Tasks only picked up
+      // through another dialect are left alone and link to their note.
+      if (!task.blockId && TaskParser.hasNotificationMarker(native)) {
         this.blockIdManager.queueTask(task);
       }
 
@@ -193,6 +400,109 @@ export class NotificationCache {
     return tasks;
   }
 
+  /**
+   * Parse events from the frontmatter properties set up in the settings
+   */
+  private parseTasksFromFrontmatter(
+    lines: string[],
+    frontmatter: FrontMatterCache,
+    frontmatterEnd: number,
+    file: TFile,
+  ): NotificationTask[] {
+    const tasks: NotificationTask[] = [];
+
+    for (const definition of this.settings.frontmatterEvents) {
+      const mapping = TaskParser.parseFrontmatterEvent(definition);
+      if (!mapping) continue;
+
+      const eventDate = TaskParser.extractFrontmatterDate(
+        (frontmatter as Record<string, unknown>)[mapping.key],
+      );
+      if (!eventDate) continue;
+
+      // Point at the property's own line, so each event has its own key
+      const lineIndex = lines
+        .slice(0, frontmatterEnd + 1)
+        .findIndex(
+          (line) =>
+            line.startsWith(mapping.key) &&
+            /^\s*:/.test(line.slice(mapping.key.length)),
+        );
+
+      const task = this.createTask(
+        file.path,
+        Math.max(lineIndex, 0) + 1, // Store as 1-indexed
+        `${file.basename} ${mapping.key}`,
+        eventDate,
+        TaskParser.applyVocabulary(
+          mapping.modifiers,
+          this.settings.markerVocabulary,
+        ),
+      );
+      task.frontmatterKey = mapping.key;
+      task.originalText = lines[lineIndex] ?? `${mapping.key}: ${eventDate}`;
+
+      tasks.push(task);
+    }
+
+    return tasks;
+  }
+
+  /**
+   * Create a notification task, reading everything but the location, title
+   * and date from the task syntax in text
+   */
+  private createTask(
+    filePath: string,
+    lineNumber: number,
+    title: string,
+    eventDate: string,
+    text: string,
+  ): NotificationTask {
+    const recurrenceRule = TaskParser.extractRecurrenceRule(text);
+    const repeatUntil = TaskParser.extractRepeatUntil(text);
+    const repeatCount = TaskParser.extractRepeatCount(text);
+
+    return {
+      filePath,
+      lineNumber,
+      blockId: "",
+      frontmatterKey: null,
+      status: null,
+      doneDate: TaskParser.extractDoneDate(text),
+      title,
+      eventDate,
+      eventEndDate: TaskParser.extractEndDate(text),
+      eventTime: TaskParser.extractTime(text),
+      workdayShift: TaskParser.extractWorkdayShift(text),
+      pinned: TaskParser.extractPinned(text),
+      lookbackDays: TaskParser.extractLookbackDays(text),
+      // An RRULE drives the matcher, but keep the basic cadence in sync
+      repeatInterval: recurrenceRule
+        ? FREQUENCY_UNITS[recurrenceRule.freq]
+        : TaskParser.extractRepeatInterval(text),
+      repeatEvery: recurrenceRule
+        ? recurrenceRule.interval
+        : TaskParser.extractRepeatEvery(text),
+      monthlyRule: TaskParser.extractMonthlyRule(text),
+      // 🔚 and x12 also end an RRULE that has no UNTIL/COUNT of its own
+      recurrenceRule: recurrenceRule && {
+        ...recurrenceRule,
+        until: recurrenceRule.until ?? repeatUntil,
+        count: recurrenceRule.count ?? repeatCount,
+      },
+      repeatUntil,
+      repeatCount,
+      // RRULEs keep their own calendar
+      repeatAfterDone:
+        !recurrenceRule && TaskParser.extractRepeatAfterDone(text),
+      reminderOffsets: TaskParser.extractReminderOffsets(text),
+      followUpOffsets: TaskParser.extractFollowUpOffsets(text),
+      dailyReminder: TaskParser.extractDailyReminder(text),
+      originalText: text,
+    };
+  }
+
   /**
    * Get statistics about the cache
    */
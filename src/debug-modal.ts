@@ -1,12 +1,31 @@
-import { Modal, App } from "obsidian";
-import { NotificationTask } from "./types";
+import { Modal, App, moment } from "obsidian";
+import { NotificationTask, ParseDiagnostic } from "./types";
+import { NotificationMatcher } from "./matcher";
+import {
+  formatCount,
+  formatEventDate,
+  formatInstant,
+  formatOffset,
+  formatTaskRepeat,
+  formatTaskStatus,
+  formatWorkdayShift,
+} from "./format-utils";
 
 export class NotificationDebugModal extends Modal {
   private tasks: NotificationTask[];
+  private diagnostics: ParseDiagnostic[];
+  private matcher: NotificationMatcher;
 
-  constructor(app: App, tasks: NotificationTask[]) {
+  constructor(
+    app: App,
+    tasks: NotificationTask[],
+    diagnostics: ParseDiagnostic[],
+    matcher: NotificationMatcher,
+  ) {
     super(app);
     this.tasks = tasks;
+    this.diagnostics = diagnostics;
+    this.matcher = matcher;
   }
 
   onOpen() {
@@ -24,6 +43,11 @@ export class NotificationDebugModal extends Modal {
       text: `${this.tasks.length} tasks across ${fileCount} files`,
     });
 
+    // Malformed tasks that were dropped or only partly understood
+    if (this.diagnostics.length > 0) {
+      this.renderProblems(contentEl);
+    }
+
     // Handle empty state
     if (this.tasks.length === 0) {
       contentEl.createEl("p", {
@@ -42,6 +66,45 @@ export class NotificationDebugModal extends Modal {
     contentEl.empty();
   }
 
+  private renderProblems(container: HTMLElement) {
+    const problems = container.createEl("div", { cls: "task-problems" });
+    problems.createEl("h3", {
+      text: `⚠️ Problems (${this.diagnostics.length})`,
+    });
+
+    for (const diagnostic of this.diagnostics) {
+      const item = problems.createEl("div", { cls: "task-problem" });
+
+      // Make problem clickable to navigate to the bad line
+      item.addEventListener("click", () => {
+        void (async () => {
+          await this.app.workspace.openLinkText(
+            diagnostic.filePath,
+            "",
+            "tab",
+            { eState: { line: diagnostic.lineNumber - 1 } },
+          );
+          this.close();
+        })();
+      });
+
+      item.createEl("div", {
+        text: diagnostic.problem,
+        cls: "task-problem-text",
+      });
+      if (diagnostic.suggestion) {
+        item.createEl("div", {
+          text: `💡 ${diagnostic.suggestion}`,
+          cls: "task-problem-suggestion",
+        });
+      }
+      item.createEl("div", {
+        text: `📍 ${diagnostic.filePath}, line ${diagnostic.lineNumber}`,
+        cls: "task-location",
+      });
+    }
+  }
+
   private groupTasksByFile(): Map<string, NotificationTask[]> {
     const grouped = new Map<string, NotificationTask[]>();
 
@@ -106,30 +169,44 @@ export class NotificationDebugModal extends Modal {
     });
 
     // Title
-    taskItem.createEl("div", {
+    const title = taskItem.createEl("div", {
       text: task.title,
       cls: "task-title",
     });
 
+    // Label repeating series that are past their end date or occurrence limit
+    const today = moment().format("YYYY-MM-DD");
+    if (this.matcher.isSeriesEnded(task, today)) {
+      title.createEl("span", { text: "Series ended", cls: "task-ended" });
+    }
+
     // Details container
     const details = taskItem.createEl("div", { cls: "task-details" });
 
     // Event date
-    const repeatText = task.repeatInterval
-      ? ` | 🔁 repeats every ${task.repeatInterval}`
+    const timeText = task.eventTime ? ` ⏰ ${task.eventTime}` : "";
+    const shiftText = task.workdayShift
+      ? ` ${formatWorkdayShift(task.workdayShift)}`
       : "";
+    const repeat = formatTaskRepeat(task);
+    const repeatText = repeat ? ` | 🔁 repeats ${repeat}` : "";
     details.createEl("div", {
-      text: `📆 ${task.eventDate}${repeatText}`,
+      text: `📆 ${formatEventDate(task)}${timeText}${shiftText}${repeatText}`,
       cls: "task-date",
     });
 
+    // Checkbox status of the source task
+    if (task.status !== null) {
+      details.createEl("div", {
+        text: `☑️ Status: ${formatTaskStatus(task.status)}${task.doneDate ? ` ✅ ${task.doneDate}` : ""}`,
+        cls: "task-status",
+      });
+    }
+
     // Reminders
     if (task.reminderOffsets.length > 0) {
       const reminders = task.reminderOffsets
-        .map((r) => {
-          const unit = r.number === 1 ? r.unit : `${r.unit}s`;
-          return `${r.number} ${unit} before`;
-        })
+        .map((r) => `${formatOffset(r)} before`)
         .join(", ");
       details.createEl("div", {
         text: `🔔 Reminders: ${reminders}`,
@@ -137,10 +214,55 @@ export class NotificationDebugModal extends Modal {
       });
     }
 
+    // Daily countdown
+    if (task.dailyReminder) {
+      details.createEl("div", {
+        text: `🔔 Daily: every day from ${formatOffset(task.dailyReminder)} before`,
+        cls: "task-reminders",
+      });
+    }
+
+    // Follow-ups
+    if (task.followUpOffsets.length > 0) {
+      const followUps = task.followUpOffsets
+        .map((r) => `${formatOffset(r)} after`)
+        .join(", ");
+      details.createEl("div", {
+        text: `➕ Follow-ups: ${followUps}`,
+        cls: "task-reminders",
+      });
+    }
+
+    // Upcoming notifications, worked out the same way as the notify block
+    const upcoming = this.matcher.getNextInstants(task, today, 3);
+    if (upcoming.length > 0) {
+      details.createEl("div", {
+        text: `⏭️ Next: ${upcoming.map(formatInstant).join("; ")}`,
+        cls: "task-reminders",
+      });
+    }
+
+    // How long past occurrences keep showing
+    if (task.lookbackDays !== null) {
+      details.createEl("div", {
+        text: `⏪ Lookback: ${formatCount(task.lookbackDays, "day")}`,
+        cls: "task-reminders",
+      });
+    }
+    if (task.pinned) {
+      details.createEl("div", {
+        text: "📌 pinned until acknowledged",
+        cls: "task-reminders",
+      });
+    }
+
     // Location
-    const locationText = task.blockId
+    let locationText = task.blockId
       ? `📍 Line ${task.lineNumber} | ^${task.blockId}`
       : `📍 Line ${task.lineNumber}`;
+    if (task.frontmatterKey) {
+      locationText = `📍 Property ${task.frontmatterKey}`;
+    }
     details.createEl("div", {
       text: locationText,
       cls: "task-location",
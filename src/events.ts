@@ -1,17 +1,25 @@
 import { App, TFile, TAbstractFile, EventRef } from "obsidian";
 import { NotificationCache } from "./cache";
+import { HolidayCache } from "./holidays";
 import { Logger } from "./logger";
 
 export class EventManager {
   private app: App;
   private cache: NotificationCache;
+  private holidays: HolidayCache;
   private debounceTimers: Map<string, number>;
   private eventRefs: EventRef[];
   private logger: Logger;
 
-  constructor(app: App, cache: NotificationCache, logger: Logger) {
+  constructor(
+    app: App,
+    cache: NotificationCache,
+    holidays: HolidayCache,
+    logger: Logger,
+  ) {
     this.app = app;
     this.cache = cache;
+    this.holidays = holidays;
     this.debounceTimers = new Map();
     this.eventRefs = [];
     this.logger = logger;
@@ -41,6 +49,17 @@ export class EventManager {
     });
     this.eventRefs.push(renameRef);
 
+    // Listen for holiday file edits (CSV files have no metadata events)
+    const modifyRef = this.app.vault.on("modify", (file) => {
+      this.handleHolidayFileChanged(file);
+    });
+    this.eventRefs.push(modifyRef);
+
+    const createRef = this.app.vault.on("create", (file) => {
+      this.handleHolidayFileChanged(file);
+    });
+    this.eventRefs.push(createRef);
+
     this.logger.debug("Event listeners registered");
   }
 
@@ -83,6 +102,29 @@ export class EventManager {
     this.debounceTimers.set(file.path, timer);
   }
 
+  /**
+   * Handle holiday file changed event with debouncing
+   */
+  private handleHolidayFileChanged(file: TAbstractFile): void {
+    if (!(file instanceof TFile) || !this.holidays.isHolidayFile(file.path)) {
+      return;
+    }
+
+    const key = `holidays:${file.path}`;
+    const existing = this.debounceTimers.get(key);
+    if (existing) {
+      window.clearTimeout(existing);
+    }
+
+    const timer = window.setTimeout(() => {
+      this.logger.debug(`Holiday file changed: ${file.path}`);
+      void this.holidays.updateFile(file);
+      this.debounceTimers.delete(key);
+    }, 500);
+
+    this.debounceTimers.set(key, timer);
+  }
+
   /**
    * Handle file deleted event
    */
@@ -90,6 +132,7 @@ export class EventManager {
     if (file instanceof TFile) {
       this.logger.debug(`File deleted: ${file.path}`);
       this.cache.removeFile(file.path);
+      this.holidays.removeFile(file.path);
 
       // Clear any pending debounce timer
       const timer = this.debounceTimers.get(file.path);
@@ -109,6 +152,7 @@ export class EventManager {
 
       // Remove old path from cache
       this.cache.removeFile(oldPath);
+      this.holidays.removeFile(oldPath);
 
       // Clear any pending debounce timer for old path
       const timer = this.debounceTimers.get(oldPath);
@@ -119,6 +163,9 @@ export class EventManager {
 
       // Update cache with new path
       void this.cache.updateFile(file);
+      if (this.holidays.isHolidayFile(file.path)) {
+        void this.holidays.updateFile(file);
+      }
     }
   }
 }
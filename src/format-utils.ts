@@ -0,0 +1,326 @@
+import {
+  ActiveNotification,
+  MonthlyRule,
+  NotificationInstant,
+  NotificationTask,
+  RecurrenceRule,
+  ReminderOffset,
+  RepeatUnit,
+  WorkdayShift,
+} from "./types";
+import { FREQUENCY_UNITS } from "./rrule";
+
+const MONTH_NAMES = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+// Names of the common task statuses, by checkbox character
+const TASK_STATUSES: Record<string, string> = {
+  " ": "to do",
+  x: "done",
+  X: "done",
+  "-": "cancelled",
+  "/": "in progress",
+};
+
+// Yearly events whose title marks them as a birthday count an age
+const BIRTHDAY_PATTERN = /\b(birthday|born)\b/i;
+
+const WEEKDAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+/**
+ * Format a count with its unit, pluralizing when needed (e.g. "1 day", "3 weeks")
+ */
+export function formatCount(count: number, unit: string): string {
+  return `${count} ${count === 1 ? unit : `${unit}s`}`;
+}
+
+/**
+ * Format a reminder offset, including all parts of mixed offsets (e.g. "1 week 3 days")
+ */
+export function formatOffset(offset: ReminderOffset): string {
+  return [offset, ...(offset.rest ?? [])]
+    .map((part) => formatCount(part.number, part.unit))
+    .join(" ");
+}
+
+/**
+ * Format a reminder offset for acknowledgement keys (e.g. "1-week", "1-week+3-day")
+ */
+export function formatOffsetKey(offset: ReminderOffset): string {
+  return [offset, ...(offset.rest ?? [])]
+    .map((part) => `${part.number}-${part.unit}`)
+    .join("+");
+}
+
+// The parts of an acknowledgement key: the task ("Notes/a.md:12:"), the
+// notification ("1-week", "daily-5-day") and its date, after "@" for the
+// occurrence or ":" for the day of a countdown
+const NOTIFICATION_KEY_PATTERN = /^(.+:\d+:)(.+)[@:](\d{4}-\d{2}-\d{2})$/;
+
+/**
+ * Format the part of acknowledgement keys that names the task (e.g.
+ * "Notes/a.md:12:")
+ */
+export function formatTaskKey(task: NotificationTask): string {
+  return `${task.filePath}:${task.lineNumber}:`;
+}
+
+/**
+ * Format the acknowledgement key of a notification (e.g.
+ * "Notes/a.md:12:1-week@2025-06-01"). Each occurrence is acknowledged on its
+ * own, and each day of a countdown.
+ */
+export function formatNotificationKey(
+  notif: Pick<
+    ActiveNotification,
+    "task" | "kind" | "reminderOffset" | "occurrenceDate"
+  >,
+  referenceDate: string,
+): string {
+  let offset = notif.reminderOffset
+    ? formatOffsetKey(notif.reminderOffset)
+    : "event";
+  // Follow-ups are acknowledged separately from same-sized reminders
+  if (notif.kind === "followUp") {
+    offset = `after-${offset}`;
+  }
+  if (notif.kind === "countdown") {
+    offset = `daily-${offset}:${referenceDate}`;
+  } else {
+    offset = `${offset}@${notif.occurrenceDate}`;
+  }
+  return `${formatTaskKey(notif.task)}${offset}`;
+}
+
+/**
+ * Split an acknowledgement key into its task, notification and date (the
+ * occurrence, or the day of a countdown). Returns null for keys written
+ * before keys named the occurrence (e.g. "Notes/a.md:12:1-week").
+ */
+export function parseNotificationKey(
+  key: string,
+): { taskKey: string; notification: string; date: string } | null {
+  const match = key.match(NOTIFICATION_KEY_PATTERN);
+  if (!match?.[1] || !match[2] || !match[3]) {
+    return null;
+  }
+  return { taskKey: match[1], notification: match[2], date: match[3] };
+}
+
+/**
+ * Format how far ahead a day is (e.g. "today", "tomorrow", "in 3 days")
+ */
+export function formatDaysAway(days: number): string {
+  if (days === 0) {
+    return "today";
+  }
+  return days === 1 ? "tomorrow" : `in ${formatCount(days, "day")}`;
+}
+
+/**
+ * Format minutes until a timed event (e.g. "in 2 hours", "started 30 minutes ago")
+ */
+export function formatRelativeTime(minutes: number): string {
+  const abs = Math.abs(minutes);
+  const amount =
+    abs < 60
+      ? formatCount(abs, "minute")
+      : formatCount(Math.round(abs / 60), "hour");
+
+  if (minutes === 0) {
+    return "starting now";
+  }
+  return minutes > 0 ? `in ${amount}` : `started ${amount} ago`;
+}
+
+/**
+ * Format a number as an English ordinal (e.g. "1st", "2nd", "11th", "23rd")
+ */
+export function formatOrdinal(n: number): string {
+  const lastTwo = n % 100;
+  if (lastTwo >= 11 && lastTwo <= 13) {
+    return `${n}th`;
+  }
+
+  switch (n % 10) {
+    case 1:
+      return `${n}st`;
+    case 2:
+      return `${n}nd`;
+    case 3:
+      return `${n}rd`;
+    default:
+      return `${n}th`;
+  }
+}
+
+/**
+ * Format a monthly rule (e.g. "on the 2nd Tuesday", "on the last day")
+ */
+export function formatMonthlyRule(rule: MonthlyRule): string {
+  const ordinal = rule.ordinal === -1 ? "last" : formatOrdinal(rule.ordinal);
+  const target =
+    typeof rule.target === "number"
+      ? (WEEKDAY_NAMES[rule.target] ?? "day")
+      : rule.target;
+  return `on the ${ordinal} ${target}`;
+}
+
+/**
+ * Format a repeat cadence (e.g. "every week", "every 2 weeks",
+ * "every month on the last Friday")
+ */
+export function formatRepeat(
+  unit: RepeatUnit,
+  every: number = 1,
+  monthlyRule: MonthlyRule | null = null,
+): string {
+  const cadence =
+    every === 1 ? `every ${unit}` : `every ${formatCount(every, unit)}`;
+  return monthlyRule && unit === "month"
+    ? `${cadence} ${formatMonthlyRule(monthlyRule)}`
+    : cadence;
+}
+
+/**
+ * Format an RRULE (e.g. "every 2 weeks on Monday, Friday, 10 times")
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  let text = formatRepeat(FREQUENCY_UNITS[rule.freq], rule.interval);
+
+  if (rule.byDay.length > 0) {
+    const days = rule.byDay.map((d) => {
+      const name = WEEKDAY_NAMES[d.weekday] ?? "";
+      if (d.ordinal === null) return name;
+      return `${d.ordinal === -1 ? "last" : formatOrdinal(d.ordinal)} ${name}`;
+    });
+    text += ` on ${days.join(", ")}`;
+  }
+  if (rule.byMonthDay.length > 0) {
+    text += ` on day ${rule.byMonthDay.join(", ")}`;
+  }
+  if (rule.byMonth.length > 0) {
+    text += ` in ${rule.byMonth.map((m) => MONTH_NAMES[m - 1]).join(", ")}`;
+  }
+  if (rule.count !== null) {
+    text += `, ${formatCount(rule.count, "time")}`;
+  }
+  if (rule.until) {
+    text += ` until ${rule.until}`;
+  }
+
+  return text;
+}
+
+/**
+ * Format the event date of a task, as a range for multi-day events
+ */
+export function formatEventDate(task: NotificationTask): string {
+  return task.eventEndDate
+    ? `${task.eventDate}..${task.eventEndDate}`
+    : task.eventDate;
+}
+
+/**
+ * Format a workday shift the way it's written ("⏮ workday", "⏭ workday")
+ */
+export function formatWorkdayShift(shift: WorkdayShift): string {
+  return `${shift === "previous" ? "⏮" : "⏭"} workday`;
+}
+
+/**
+ * Format the cadence of a task, or null for one-time events
+ */
+export function formatTaskRepeat(task: NotificationTask): string | null {
+  if (task.recurrenceRule) {
+    return formatRecurrenceRule(task.recurrenceRule);
+  }
+  if (task.repeatInterval) {
+    let text = formatRepeat(
+      task.repeatInterval,
+      task.repeatEvery,
+      task.monthlyRule,
+    );
+    if (task.repeatCount !== null) {
+      text += `, ${formatCount(task.repeatCount, "time")}`;
+    }
+    if (task.repeatAfterDone) {
+      text += " after done";
+    }
+    if (task.repeatUntil) {
+      text += ` until ${task.repeatUntil}`;
+    }
+    return text;
+  }
+  return null;
+}
+
+/**
+ * Format the number of an occurrence: an age for birthdays ("turns 37"), an
+ * anniversary for other yearly events ("10th anniversary"), or "occurrence #4".
+ * Returns null on the first occurrence of a yearly event, which isn't one yet.
+ */
+export function formatOccurrence(
+  task: NotificationTask,
+  occurrenceNumber: number,
+): string | null {
+  if (task.repeatInterval === "year" && !task.recurrenceRule) {
+    const years = (occurrenceNumber - 1) * task.repeatEvery;
+    if (years <= 0) {
+      return null;
+    }
+    return BIRTHDAY_PATTERN.test(task.title)
+      ? `turns ${years}`
+      : `${formatOrdinal(years)} anniversary`;
+  }
+  return `occurrence #${occurrenceNumber}`;
+}
+
+/**
+ * Format a task's checkbox status (e.g. "done [x]", "cancelled [-]")
+ */
+export function formatTaskStatus(status: string): string {
+  const name = TASK_STATUSES[status];
+  return name ? `${name} [${status}]` : `[${status}]`;
+}
+
+/**
+ * Format when a task notifies and why (e.g. "2025-03-08 09:00, 1 week before",
+ * "2025-03-12, 3 days left")
+ */
+export function formatInstant(instant: NotificationInstant): string {
+  const when = instant.time ? `${instant.date} ${instant.time}` : instant.date;
+  const { offset } = instant;
+  if (instant.kind === "event" || !offset) {
+    return `${when}, event`;
+  }
+  if (instant.kind === "countdown") {
+    // Both are plain dates, so this is a whole number of days
+    const daysLeft = Math.round(
+      (Date.parse(instant.occurrence.date) - Date.parse(instant.date)) /
+        86400000,
+    );
+    return `${when}, ${formatCount(daysLeft, "day")} left`;
+  }
+  return `${when}, ${formatOffset(offset)} ${instant.kind === "reminder" ? "before" : "after"}`;
+}
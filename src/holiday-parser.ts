@@ -0,0 +1,93 @@
+import { moment } from "obsidian";
+import { Holiday } from "./types";
+
+/**
+ * Parse the holidays of a holiday file: a CSV of "date,name" rows for .csv
+ * files, otherwise a markdown list with one dated item per holiday
+ */
+export function parseHolidayFile(content: string, filePath: string): Holiday[] {
+  return filePath.toLowerCase().endsWith(".csv")
+    ? parseHolidayCsv(content, filePath)
+    : parseHolidayList(content, filePath);
+}
+
+/**
+ * Parse CSV rows such as "2025-12-25,Christmas Day". Rows that don't start
+ * with a date (e.g. a "date,name" header) are skipped.
+ */
+function parseHolidayCsv(content: string, filePath: string): Holiday[] {
+  const holidays: Holiday[] = [];
+
+  for (const line of content.split(/\r?\n/)) {
+    const [date, name] = parseCsvRow(line).map((cell) => cell.trim());
+    if (date && isValidDate(date)) {
+      holidays.push({ date, name: name || "Holiday", filePath });
+    }
+  }
+
+  return holidays;
+}
+
+/**
+ * Parse list items such as "- 2025-12-25 Christmas Day" or
+ * "- Christmas Day 📆 2025-12-25". Other lines are ignored.
+ */
+function parseHolidayList(content: string, filePath: string): Holiday[] {
+  const holidays: Holiday[] = [];
+
+  for (const line of content.split(/\r?\n/)) {
+    const item = line.match(/^\s*[-*+]\s+(?:\[.\]\s+)?(.*)$/);
+    const text = item?.[1];
+    if (!text) continue;
+
+    const dateMatch = text.match(/\d{4}-\d{2}-\d{2}/);
+    const date = dateMatch?.[0];
+    if (!date || !isValidDate(date)) continue;
+
+    const name = text
+      .replace(date, " ")
+      .replace(/📆/gu, " ")
+      .replace(/^[\s:|,–—-]+|[\s:|,–—-]+$/g, "")
+      .replace(/\s+/g, " ");
+    holidays.push({ date, name: name || "Holiday", filePath });
+  }
+
+  return holidays;
+}
+
+/**
+ * Split a CSV row into cells, honouring double-quoted cells
+ */
+function parseCsvRow(line: string): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      cells.push(cell);
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+
+  return cells;
+}
+
+function isValidDate(date: string): boolean {
+  return moment(date, "YYYY-MM-DD", true).isValid();
+}
@@ -0,0 +1,89 @@
+import { App, TFile, normalizePath } from "obsidian";
+import { Holiday } from "./types";
+import type NotificationPlugin from "./main";
+import { Logger } from "./logger";
+import { NotificationSettings } from "./settings";
+import { parseHolidayFile } from "./holiday-parser";
+
+export class HolidayCache {
+  private app: App;
+  private cache: Map<string, Holiday[]>; // filePath -> holidays
+  private plugin: NotificationPlugin;
+  private logger: Logger;
+  private settings: NotificationSettings;
+
+  constructor(
+    app: App,
+    plugin: NotificationPlugin,
+    logger: Logger,
+    settings: NotificationSettings,
+  ) {
+    this.app = app;
+    this.cache = new Map();
+    this.plugin = plugin;
+    this.logger = logger;
+    this.settings = settings;
+  }
+
+  /**
+   * Load all holiday files listed in the settings
+   */
+  async initialize(): Promise<void> {
+    this.cache.clear();
+
+    for (const path of this.settings.holidayFiles) {
+      const file = this.app.vault.getAbstractFileByPath(normalizePath(path));
+      if (file instanceof TFile) {
+        await this.updateFile(file);
+      } else {
+        this.logger.debug(`Holiday file not found: ${path}`);
+      }
+    }
+
+    this.logger.debug(
+      `Holiday cache initialized with ${this.getAllHolidays().length} holidays`,
+    );
+  }
+
+  /**
+   * Check if a file is one of the holiday files listed in the settings
+   */
+  isHolidayFile(filePath: string): boolean {
+    return this.settings.holidayFiles.some(
+      (path) => normalizePath(path) === filePath,
+    );
+  }
+
+  /**
+   * Update cache for a specific holiday file
+   */
+  async updateFile(file: TFile): Promise<void> {
+    const content = await this.app.vault.cachedRead(file);
+    const holidays = parseHolidayFile(content, file.path);
+    this.logger.debug(`Loaded ${holidays.length} holidays from ${file.path}`);
+    this.cache.set(file.path, holidays);
+
+    // Holidays affect workday shifts, so re-place all occurrences
+    this.plugin.reindexNotifications();
+  }
+
+  /**
+   * Remove a holiday file from the cache
+   */
+  removeFile(filePath: string): void {
+    if (this.cache.delete(filePath)) {
+      this.plugin.reindexNotifications();
+    }
+  }
+
+  /**
+   * Get all holidays across all holiday files
+   */
+  getAllHolidays(): Holiday[] {
+    const allHolidays: Holiday[] = [];
+    for (const holidays of this.cache.values()) {
+      allHolidays.push(...holidays);
+    }
+    return allHolidays;
+  }
+}
@@ -5,19 +5,27 @@ import {
   NotificationSettingTab,
 } from "./settings";
 import { NotificationCache } from "./cache";
+import { HolidayCache } from "./holidays";
 import { EventManager } from "./events";
 import { BlockIdManager } from "./blockid-manager";
+import { TaskCompleter } from "./task-completer";
 import { NotifyBlockRenderer } from "./renderer";
 import { NotificationDebugModal } from "./debug-modal";
+import { NotificationMatcher } from "./matcher";
 import { Logger } from "./logger";
+import { ActiveNotification } from "./types";
+import { parseNotificationKey } from "./format-utils";
 
 export default class NotificationPlugin extends Plugin {
   settings: NotificationSettings;
   cache: NotificationCache;
+  holidays: HolidayCache;
   eventManager: EventManager;
   blockIdManager: BlockIdManager;
+  completer: TaskCompleter;
   activeRenderers: Set<NotifyBlockRenderer>;
   logger: Logger;
+  private problemIndex = 0;
 
   async onload() {
     await this.loadSettings();
@@ -41,6 +49,7 @@ export default class NotificationPlugin extends Plugin {
         this,
         this.settings,
         this.logger,
+        source,
       );
       ctx.addChild(renderer);
     });
@@ -55,7 +64,29 @@ export default class NotificationPlugin extends Plugin {
           return;
         }
         const allTasks = this.cache.getAllTasks();
-        new NotificationDebugModal(this.app, allTasks).open();
+        const matcher = new NotificationMatcher(
+          this.settings,
+          this.holidays.getAllHolidays(),
+        );
+        new NotificationDebugModal(
+          this.app,
+          allTasks,
+          this.cache.getAllDiagnostics(),
+          matcher,
+        ).open();
+      },
+    });
+
+    // Add command to step through malformed notification tasks
+    this.addCommand({
+      id: "next-notification-problem",
+      name: "Go to next notification task problem",
+      callback: () => {
+        if (!this.cache) {
+          new Notice("Cache not initialized. Please wait...");
+          return;
+        }
+        void this.openNextProblem();
       },
     });
 
@@ -68,6 +99,16 @@ export default class NotificationPlugin extends Plugin {
   private async initializePlugin() {
     // Create BlockIdManager
     this.blockIdManager = new BlockIdManager(this.app, this.logger);
+    this.completer = new TaskCompleter(this.app, this.logger);
+
+    // Load holidays before tasks, since they affect workday shifts
+    this.holidays = new HolidayCache(
+      this.app,
+      this,
+      this.logger,
+      this.settings,
+    );
+    await this.holidays.initialize();
 
     // Initialize cache with BlockIdManager and plugin reference
     this.cache = new NotificationCache(
@@ -78,9 +119,15 @@ export default class NotificationPlugin extends Plugin {
       this.settings,
     );
     await this.cache.initialize();
+    await this.pruneAcknowledgements();
 
     // Start event listeners
-    this.eventManager = new EventManager(this.app, this.cache, this.logger);
+    this.eventManager = new EventManager(
+      this.app,
+      this.cache,
+      this.holidays,
+      this.logger,
+    );
     this.eventManager.register();
   }
 
@@ -103,6 +150,116 @@ export default class NotificationPlugin extends Plugin {
     this.logger.debug("Cache reinitialized");
   }
 
+  /**
+   * Open the line of the next malformed notification task, wrapping around
+   * after the last one
+   */
+  private async openNextProblem(): Promise<void> {
+    const diagnostics = this.cache.getAllDiagnostics();
+    if (diagnostics.length === 0) {
+      new Notice("No problems found in notification tasks");
+      return;
+    }
+
+    const index = this.problemIndex % diagnostics.length;
+    const diagnostic = diagnostics[index];
+    this.problemIndex = index + 1;
+    if (!diagnostic) return;
+
+    await this.app.workspace.openLinkText(diagnostic.filePath, "", false, {
+      eState: { line: diagnostic.lineNumber - 1 },
+    });
+    new Notice(
+      `Problem ${index + 1} of ${diagnostics.length}: ${diagnostic.problem}` +
+        (diagnostic.suggestion ? `. ${diagnostic.suggestion}` : ""),
+    );
+  }
+
+  /**
+   * Complete the occurrence a notification is about in its source task, then
+   * acknowledge the notification
+   */
+  async completeOccurrence(
+    notif: ActiveNotification,
+    key: string,
+    referenceDate: string,
+  ): Promise<void> {
+    const matcher = new NotificationMatcher(
+      this.settings,
+      this.holidays.getAllHolidays(),
+    );
+    const doneDate = moment().format("YYYY-MM-DD");
+    const advance = matcher.getTaskAdvance(
+      notif.task,
+      notif.occurrenceDate,
+      doneDate,
+    );
+    const mode = this.settings.completeRecurringTasks;
+    const completed = await this.completer.completeOccurrence(
+      notif.task,
+      notif.occurrenceDate,
+      advance,
+      mode,
+      doneDate,
+      this.settings.markerVocabulary,
+    );
+    if (!completed) {
+      new Notice("The task has changed since it was read, try again");
+      return;
+    }
+
+    // The completed copy pushes the tasks below it down a line
+    if (advance && mode === "copy") {
+      this.shiftAcknowledgements(notif.task.filePath, notif.task.lineNumber);
+    }
+    await this.acknowledgeNotification(key, referenceDate);
+  }
+
+  /**
+   * Move the acknowledgements of a file's tasks below a line down by one
+   * line, after a line was inserted below it. Keys name the task's line, so
+   * they'd otherwise belong to the task that moved into it.
+   */
+  private shiftAcknowledgements(filePath: string, lineNumber: number): void {
+    const { acknowledgements } = this.settings;
+    const shifted: Record<string, string> = {};
+    for (const key of Object.keys(acknowledgements)) {
+      const parsed = parseNotificationKey(key);
+      const ackDate = acknowledgements[key];
+      if (
+        !parsed ||
+        !parsed.taskKey.startsWith(`${filePath}:`) ||
+        ackDate === undefined
+      ) {
+        continue;
+      }
+      const line = parseInt(parsed.taskKey.slice(filePath.length + 1));
+      if (line <= lineNumber) {
+        continue;
+      }
+      delete acknowledgements[key];
+      shifted[`${filePath}:${line + 1}:${key.slice(parsed.taskKey.length)}`] =
+        ackDate;
+    }
+    Object.assign(acknowledgements, shifted);
+  }
+
+  async reloadHolidays(): Promise<void> {
+    if (!this.holidays) return;
+
+    await this.holidays.initialize();
+    this.reindexNotifications();
+  }
+
+  /**
+   * Rebuild the cache's date index and refresh all notify blocks, for
+   * changes that move occurrences (holidays, lookback, non-working days)
+   */
+  reindexNotifications(): void {
+    this.cache?.reindex();
+    this.refreshAllNotifications();
+  }
+
   onunload() {
     // Cleanup event listeners
     this.eventManager.unregister();
@@ -115,6 +272,38 @@ export default class NotificationPlugin extends Plugin {
       DEFAULT_SETTINGS,
       (await this.loadData()) as Partial<NotificationSettings>,
     );
+
+    // Acknowledgements from before keys named the occurrence can't be
+    // matched to one any more
+    for (const key of Object.keys(this.settings.acknowledgements)) {
+      if (!parseNotificationKey(key)) {
+        delete this.settings.acknowledgements[key];
+      }
+    }
+  }
+
+  /**
+   * Drop the acknowledgements of occurrences that can't show again, so they
+   * don't pile up with every tick
+   */
+  private async pruneAcknowledgements(): Promise<void> {
+    const matcher = new NotificationMatcher(
+      this.settings,
+      this.holidays.getAllHolidays(),
+    );
+    const stale = matcher.getStaleAcknowledgements(
+      this.cache.getAllTasks(),
+      moment().format("YYYY-MM-DD"),
+    );
+    if (stale.length === 0) {
+      return;
+    }
+
+    for (const key of stale) {
+      delete this.settings.acknowledgements[key];
+    }
+    await this.saveSettings();
+    this.logger.debug(`Removed ${stale.length} old acknowledgements`);
   }
 
   async saveSettings() {
@@ -146,11 +335,10 @@ export default class NotificationPlugin extends Plugin {
     await this.saveSettings();
   }
 
-  isAcknowledged(key: string, today: string): boolean {
-    const acknowledgedDate = this.settings.acknowledgements[key];
-    if (!acknowledgedDate) return false;
-
-    // If acknowledged on or after today, it's still acknowledged
-    return acknowledgedDate >= today;
+  isAcknowledged(key: string): boolean {
+    // Keys name the occurrence (or the day, for countdowns), so an
+    // acknowledgement stays for the whole lookback window and never carries
+    // over to the next occurrence
+    return this.settings.acknowledgements[key] !== undefined;
   }
 }
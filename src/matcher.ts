@@ -1,12 +1,69 @@
 import { moment } from "obsidian";
-import { NotificationTask, ActiveNotification, ReminderOffset } from "./types";
+import {
+  NotificationTask,
+  ActiveNotification,
+  AgendaDay,
+  AgendaEntry,
+  Holiday,
+  NotificationInstant,
+  NotificationKind,
+  ReminderOffset,
+  RepeatUnit,
+  MonthlyRule,
+  TaskAdvance,
+  TaskOccurrence,
+  WorkdayShift,
+} from "./types";
 import { NotificationSettings } from "./settings";
+import {
+  formatCount,
+  formatEventDate,
+  formatNotificationKey,
+  formatOccurrence,
+  formatOffset,
+  formatRelativeTime,
+  formatTaskKey,
+  formatTaskRepeat,
+  formatWorkdayShift,
+  parseNotificationKey,
+} from "./format-utils";
+import {
+  getLastRuleOccurrence,
+  getNextRuleOccurrence,
+  getRuleOccurrences,
+} from "./rrule";
+
+// Upper bound on occurrences stepped through when searching, e.g. a daily
+// event with a "1 year" reminder needs to look 365 occurrences ahead
+const MAX_OCCURRENCE_STEPS = 1000;
+
+// Upper bound on days a workday shift moves an occurrence, enough for a
+// weekend next to a long holiday break
+const MAX_WORKDAY_SHIFT_DAYS = 14;
+
+// Checkbox characters of tasks that are done ("- [x]") or cancelled ("- [-]")
+const CLOSED_STATUSES = ["x", "X", "-"];
 
 export class NotificationMatcher {
   private settings: NotificationSettings;
+  private holidays: Holiday[];
+  private holidayDates: Set<string>;
+  private eventAcknowledgements: Map<
+    string,
+    { occurrenceDate: string; ackDate: string }[]
+  > | null = null;
 
-  constructor(settings: NotificationSettings) {
+  constructor(settings: NotificationSettings, holidays: Holiday[] = []) {
     this.settings = settings;
+    this.holidays = holidays;
+    this.holidayDates = new Set(holidays.map((h) => h.date));
+  }
+
+  /**
+   * Get the holidays that fall on a given date
+   */
+  getHolidays(referenceDate: string): Holiday[] {
+    return this.holidays.filter((h) => h.date === referenceDate);
   }
 
   /**
@@ -15,157 +72,1350 @@ export class NotificationMatcher {
   getActiveNotifications(
     tasks: NotificationTask[],
     referenceDate: string,
+    now: moment.Moment = moment(),
   ): ActiveNotification[] {
     const active: ActiveNotification[] = [];
     const today = moment(referenceDate);
 
     for (const task of tasks) {
+      if (this.isClosedTask(task)) {
+        continue;
+      }
+
       const eventDate = moment(task.eventDate);
+      const repeat = formatTaskRepeat(task);
+      const repeatText = repeat ? ` 🔁 ${repeat}` : "";
+      const timeText = task.eventTime ? ` ⏰ ${task.eventTime}` : "";
+      const shiftText = task.workdayShift
+        ? ` ${formatWorkdayShift(task.workdayShift)}`
+        : "";
+      const dateText = formatEventDate(task);
 
-      // Check 1: Does the event date match (with repeat and lookback logic)?
-      if (this.eventDateMatches(eventDate, today, task.repeatInterval)) {
-        // For yearly events, calculate diff from this year's occurrence
-        let effectiveEventDate = eventDate;
-        if (task.repeatInterval === "year") {
-          effectiveEventDate = eventDate.clone().year(today.year());
-        }
+      // Check 1: Did an occurrence start today, or within the lookback window?
+      const occurrence = this.getEventOccurrence(eventDate, task, today);
 
-        const daysDiff = today.diff(effectiveEventDate, "days");
-        const context = this.getEventDateContext(daysDiff, task.repeatInterval);
+      if (occurrence) {
+        const context = task.eventEndDate
+          ? this.getMultiDayContext(occurrence, today, task)
+          : this.getSingleDayContext(occurrence, today, now, task);
+        const occurrenceNumber = this.getOccurrenceNumber(
+          eventDate,
+          task,
+          occurrence,
+        );
+        const label = occurrenceNumber
+          ? formatOccurrence(task, occurrenceNumber)
+          : null;
+        let eventText = context;
+        if (label) {
+          eventText =
+            context === "today" ? `${label} today` : `${label}, ${context}`;
+        }
 
         active.push({
           task,
+          kind: "event",
           reminderOffset: null, // null means event day itself
-          displayText: `${task.title} 📆 ${task.eventDate} — *${context}*`,
+          occurrenceDate: occurrence.format("YYYY-MM-DD"),
+          occurrenceNumber,
+          displayText: `${task.title} 📆 ${dateText}${timeText}${shiftText}${repeatText} — *${eventText}*`,
+        });
+      }
+
+      // Check 2: Do any reminders, follow-ups or countdown days fall on today?
+      for (const instant of this.getInstants(
+        task,
+        referenceDate,
+        referenceDate,
+      )) {
+        // The event itself shows for the whole lookback window, above
+        const offset = instant.offset;
+        if (instant.kind === "event" || !offset) {
+          continue;
+        }
+
+        const { occurrenceNumber } = instant.occurrence;
+        let context: string;
+        if (instant.kind === "reminder") {
+          const label = occurrenceNumber
+            ? formatOccurrence(task, occurrenceNumber)
+            : null;
+
+          // Ages and anniversaries read as "turns 37 in 2 weeks"
+          context = `${formatOffset(offset)} early`;
+          if (label && task.repeatInterval === "year") {
+            context = `${label} in ${formatOffset(offset)}`;
+          } else if (label) {
+            context += `, ${label}`;
+          }
+        } else if (instant.kind === "followUp") {
+          context = `${formatOffset(offset)} after`;
+        } else {
+          const daysLeft = moment(instant.occurrence.date).diff(today, "days");
+          context = `${formatCount(daysLeft, "day")} left`;
+        }
+
+        active.push({
+          task,
+          kind: instant.kind,
+          reminderOffset: offset,
+          occurrenceDate: instant.occurrence.date,
+          occurrenceNumber,
+          displayText: `${task.title} 📆 ${dateText}${timeText}${shiftText}${repeatText} — *${context}*`,
         });
       }
+    }
+
+    return active;
+  }
+
+  /**
+   * Group the occurrences of tasks starting between two dates (inclusive) by
+   * day, each with its reminders that fall in the same range. Days without
+   * occurrences are left out.
+   */
+  getAgenda(tasks: NotificationTask[], from: string, to: string): AgendaDay[] {
+    const days = new Map<string, AgendaEntry[]>();
+
+    for (const task of tasks) {
+      if (this.isClosedTask(task)) {
+        continue;
+      }
+
+      const instants = this.getInstants(task, from, to);
+      for (const instant of instants) {
+        if (instant.kind !== "event") {
+          continue;
+        }
+        const entries = days.get(instant.date) ?? [];
+        entries.push({
+          task,
+          occurrence: instant.occurrence,
+          time: instant.time,
+          reminders: instants.filter(
+            (i) =>
+              i.kind === "reminder" &&
+              i.occurrence.date === instant.occurrence.date,
+          ),
+        });
+        days.set(instant.date, entries);
+      }
+    }
+
+    return Array.from(days.keys())
+      .sort()
+      .map((date) => ({
+        date,
+        // All-day entries first, then by time of day
+        entries: (days.get(date) ?? []).sort((a, b) =>
+          (a.time ?? "").localeCompare(b.time ?? ""),
+        ),
+      }));
+  }
+
+  /**
+   * List the occurrences of a task that start between two dates (inclusive),
+   * in order
+   */
+  getOccurrences(
+    task: NotificationTask,
+    from: string,
+    to: string,
+  ): TaskOccurrence[] {
+    const eventDate = moment(task.eventDate);
+    return this.getOccurrencesBetween(
+      eventDate,
+      task,
+      moment(from),
+      moment(to),
+    ).map((occurrence) => this.toTaskOccurrence(eventDate, task, occurrence));
+  }
+
+  /**
+   * List the next count occurrences of a task that start on or after a date
+   */
+  getNextOccurrences(
+    task: NotificationTask,
+    from: string,
+    count: number,
+  ): TaskOccurrence[] {
+    const eventDate = moment(task.eventDate);
+    const occurrences: TaskOccurrence[] = [];
+    let searchFrom = moment(from);
+    while (occurrences.length < count) {
+      const occurrence = this.getNextOccurrence(eventDate, task, searchFrom);
+      if (!occurrence) {
+        break;
+      }
+      occurrences.push(this.toTaskOccurrence(eventDate, task, occurrence));
+      searchFrom = occurrence.clone().add(1, "day");
+    }
+    return occurrences;
+  }
+
+  /**
+   * List the instants a task notifies at between two dates (inclusive), in
+   * order of date and time: the start of each occurrence, and its reminders,
+   * follow-ups and countdown days. Acknowledgements, closed tasks and the
+   * lookback window are left to getActiveNotifications.
+   */
+  getInstants(
+    task: NotificationTask,
+    from: string,
+    to: string,
+  ): NotificationInstant[] {
+    const eventDate = moment(task.eventDate);
+    const start = moment(from);
+    const end = moment(to);
 
-      // Check 2: Do any reminder offsets match?
-      for (const offset of task.reminderOffsets) {
-        const reminderDate = this.calculateReminderDate(
+    const instants: NotificationInstant[] = this.getOccurrencesBetween(
+      eventDate,
+      task,
+      start,
+      end,
+    ).map((occurrence) =>
+      this.toInstant(
+        "event",
+        null,
+        this.withEventTime(occurrence, task),
+        task,
+        this.toTaskOccurrence(eventDate, task, occurrence),
+      ),
+    );
+    for (const offset of task.reminderOffsets) {
+      instants.push(
+        ...this.getOffsetInstants(
           eventDate,
+          task,
+          "reminder",
           offset,
-          task.repeatInterval,
-          today,
-        );
+          start,
+          end,
+        ),
+      );
+    }
+    for (const offset of task.followUpOffsets) {
+      instants.push(
+        ...this.getOffsetInstants(
+          eventDate,
+          task,
+          "followUp",
+          offset,
+          start,
+          end,
+        ),
+      );
+    }
+    if (task.dailyReminder) {
+      instants.push(
+        ...this.getCountdownInstants(
+          eventDate,
+          task.dailyReminder,
+          task,
+          start,
+          end,
+        ),
+      );
+    }
 
-        if (reminderDate && reminderDate.isSame(today, "day")) {
-          const unit = offset.number === 1 ? offset.unit : `${offset.unit}s`;
-          active.push({
-            task,
-            reminderOffset: offset,
-            displayText: `${task.title} 📆 ${task.eventDate} — *${offset.number} ${unit} early*`,
-          });
+    // All-day instants first on each day; the sort is stable, so events come
+    // before reminders, follow-ups and countdowns at the same time
+    return instants.sort((a, b) =>
+      `${a.date} ${a.time ?? ""}`.localeCompare(`${b.date} ${b.time ?? ""}`),
+    );
+  }
+
+  /**
+   * List the next count instants a task notifies at, on or after a date
+   */
+  getNextInstants(
+    task: NotificationTask,
+    from: string,
+    count: number,
+  ): NotificationInstant[] {
+    const eventDate = moment(task.eventDate);
+
+    // Follow-ups reach past their occurrence, so a window can still gain
+    // instants from occurrences up to this many days before its end
+    const duration = task.eventEndDate
+      ? moment(task.eventEndDate).diff(eventDate, "days")
+      : 0;
+    let reach = duration;
+    for (const offset of task.followUpOffsets) {
+      const followUp = eventDate.clone();
+      for (const part of [offset, ...(offset.rest ?? [])]) {
+        followUp.add(part.number, part.unit);
+      }
+      reach = Math.max(reach, followUp.diff(eventDate, "days") + duration + 1);
+    }
+
+    // Reminders can be months ahead of their occurrence, and occurrences
+    // years apart, so search ahead in growing windows
+    for (let days = 32; ; days *= 2) {
+      const to = moment(from).add(days, "days");
+      const instants = this.getInstants(task, from, to.format("YYYY-MM-DD"));
+      const more = this.getNextOccurrence(
+        eventDate,
+        task,
+        to.clone().subtract(reach, "days"),
+      );
+      if (instants.length >= count || !more) {
+        return instants.slice(0, count);
+      }
+    }
+  }
+
+  /**
+   * List the dates between two dates (inclusive) on which a task may show in
+   * a notify block: its reminders, follow-ups and countdown days, and every
+   * day an occurrence lasts plus the lookback window. Returns null for 📌 and
+   * "after done" tasks, which depend on what has been acknowledged.
+   */
+  getNotificationDates(
+    task: NotificationTask,
+    from: string,
+    to: string,
+  ): string[] | null {
+    if (task.pinned || task.repeatAfterDone) {
+      return null;
+    }
+
+    const start = moment(from);
+    const end = moment(to);
+    const duration = task.eventEndDate
+      ? moment(task.eventEndDate).diff(task.eventDate, "days")
+      : 0;
+    const shown = duration + (task.lookbackDays ?? this.settings.lookbackDays);
+
+    const dates = new Set<string>();
+    const occurrences = this.getOccurrences(
+      task,
+      start.clone().subtract(shown, "days").format("YYYY-MM-DD"),
+      to,
+    );
+    for (const occurrence of occurrences) {
+      const day = moment.max(moment(occurrence.date), start.clone());
+      const last = moment.min(moment(occurrence.date).add(shown, "days"), end);
+      for (; !day.isAfter(last, "day"); day.add(1, "day")) {
+        dates.add(day.format("YYYY-MM-DD"));
+      }
+    }
+    for (const instant of this.getInstants(task, from, to)) {
+      dates.add(instant.date);
+    }
+
+    return Array.from(dates).sort();
+  }
+
+  /**
+   * Describe a calendar occurrence as a TaskOccurrence
+   */
+  private toTaskOccurrence(
+    eventDate: moment.Moment,
+    task: NotificationTask,
+    occurrence: moment.Moment,
+  ): TaskOccurrence {
+    const duration = task.eventEndDate
+      ? moment(task.eventEndDate).diff(eventDate, "days")
+      : 0;
+    return {
+      date: occurrence.format("YYYY-MM-DD"),
+      endDate: task.eventEndDate
+        ? occurrence.clone().add(duration, "days").format("YYYY-MM-DD")
+        : null,
+      occurrenceNumber: this.getOccurrenceNumber(eventDate, task, occurrence),
+    };
+  }
+
+  /**
+   * Describe the moment a task notifies as a NotificationInstant
+   */
+  private toInstant(
+    kind: NotificationKind,
+    offset: ReminderOffset | null,
+    instant: moment.Moment,
+    task: NotificationTask,
+    occurrence: TaskOccurrence,
+  ): NotificationInstant {
+    return {
+      kind,
+      offset,
+      date: instant.format("YYYY-MM-DD"),
+      time:
+        task.eventTime && kind !== "countdown" ? instant.format("HH:mm") : null,
+      occurrence,
+    };
+  }
+
+  /**
+   * List the reminders or follow-ups for one offset that fall between two
+   * dates, in order
+   */
+  private getOffsetInstants(
+    eventDate: moment.Moment,
+    task: NotificationTask,
+    kind: "reminder" | "followUp",
+    offset: ReminderOffset,
+    start: moment.Moment,
+    end: moment.Moment,
+  ): NotificationInstant[] {
+    const parts = [offset, ...(offset.rest ?? [])];
+
+    // Follow-ups count from the last day of multi-day events
+    const duration =
+      kind === "followUp" && task.eventEndDate
+        ? moment(task.eventEndDate).diff(eventDate, "days")
+        : 0;
+
+    // A reminder comes before its occurrence, so occurrences from the start
+    // date on are enough. Follow-ups need earlier ones, from a few days
+    // early, since adding months can clamp to a month end.
+    let from = start.clone();
+    if (kind === "followUp") {
+      for (const part of parts) {
+        from.subtract(part.number, part.unit);
+      }
+      from = from.startOf("day").subtract(duration + 3, "days");
+    }
+
+    const instants: NotificationInstant[] = [];
+    let lastDate: string | null = null;
+    for (let i = 0; i < MAX_OCCURRENCE_STEPS; i++) {
+      const occurrence = this.getNextOccurrence(eventDate, task, from);
+      if (!occurrence) {
+        break;
+      }
+
+      // Offset the event (at its time of day)
+      const instant = this.withEventTime(occurrence, task).add(
+        duration,
+        "days",
+      );
+      for (const part of parts) {
+        if (kind === "reminder") {
+          instant.subtract(part.number, part.unit);
+        } else {
+          instant.add(part.number, part.unit);
         }
       }
+      if (instant.isAfter(end, "day")) {
+        break;
+      }
+
+      // Month offsets can land several occurrences on one day, which only
+      // notifies about the first
+      const date = instant.format("YYYY-MM-DD");
+      if (!instant.isBefore(start, "day") && date !== lastDate) {
+        instants.push(
+          this.toInstant(
+            kind,
+            offset,
+            instant,
+            task,
+            this.toTaskOccurrence(eventDate, task, occurrence),
+          ),
+        );
+        lastDate = date;
+      }
+
+      from = occurrence.clone().add(1, "day");
     }
 
-    return active;
+    return instants;
   }
 
   /**
-   * Check if an event date matches today, considering repeat intervals and lookback
+   * List the days between two dates that fall inside the daily countdown to
+   * the next occurrence after them. The event day itself isn't counted down.
    */
-  private eventDateMatches(
+  private getCountdownInstants(
     eventDate: moment.Moment,
+    window: ReminderOffset,
+    task: NotificationTask,
+    start: moment.Moment,
+    end: moment.Moment,
+  ): NotificationInstant[] {
+    const instants: NotificationInstant[] = [];
+
+    // Each day counts down to the first occurrence after it, so the days up
+    // to an occurrence begin on the previous one
+    let day = start.clone().startOf("day");
+    for (let i = 0; i < MAX_OCCURRENCE_STEPS && !day.isAfter(end, "day"); i++) {
+      const occurrence = this.getNextOccurrence(
+        eventDate,
+        task,
+        day.clone().add(1, "day"),
+      );
+      if (!occurrence) {
+        break;
+      }
+
+      const windowStart = occurrence.clone();
+      for (const part of [window, ...(window.rest ?? [])]) {
+        windowStart.subtract(part.number, part.unit);
+      }
+      if (day.isBefore(windowStart, "day")) {
+        day = windowStart.clone().startOf("day");
+      }
+
+      const taskOccurrence = this.toTaskOccurrence(eventDate, task, occurrence);
+      for (
+        ;
+        day.isBefore(occurrence, "day") && !day.isAfter(end, "day");
+        day.add(1, "day")
+      ) {
+        instants.push(
+          this.toInstant("countdown", window, day, task, taskOccurrence),
+        );
+      }
+      day = occurrence.clone().startOf("day");
+    }
+
+    return instants;
+  }
+
+  /**
+   * Get the display context of a single-day occurrence on or before today
+   */
+  private getSingleDayContext(
+    occurrence: moment.Moment,
     today: moment.Moment,
-    repeatInterval: "day" | "week" | "month" | "year" | null,
-  ): boolean {
-    switch (repeatInterval) {
-      case null: {
-        // One-time event: exact match with lookback window
-        const daysDiff = today.diff(eventDate, "days");
-        return daysDiff >= 0 && daysDiff <= this.settings.lookbackDays;
+    now: moment.Moment,
+    task: NotificationTask,
+  ): string {
+    const daysDiff = today.diff(occurrence, "days");
+
+    // Timed events happening today: relative to the current time
+    if (daysDiff === 0 && task.eventTime) {
+      return today.isSame(now, "day")
+        ? formatRelativeTime(
+            this.withEventTime(today, task).diff(now, "minutes"),
+          )
+        : `today at ${task.eventTime}`;
+    }
+
+    return this.getEventDateContext(daysDiff, task.repeatInterval);
+  }
+
+  /**
+   * Get the display context of a multi-day occurrence: "day 2 of 5" while it
+   * lasts, or days since its end date
+   */
+  private getMultiDayContext(
+    occurrence: moment.Moment,
+    today: moment.Moment,
+    task: NotificationTask,
+  ): string {
+    const duration = moment(task.eventEndDate).diff(task.eventDate, "days") + 1;
+
+    const day = today.diff(occurrence, "days") + 1;
+    if (day <= duration) {
+      return `day ${day} of ${duration}`;
+    }
+
+    // Past the end date: count days from the end
+    return this.getEventDateContext(day - duration, task.repeatInterval);
+  }
+
+  /**
+   * Find the occurrences between two dates (inclusive), in order
+   */
+  private getOccurrencesBetween(
+    eventDate: moment.Moment,
+    task: NotificationTask,
+    from: moment.Moment,
+    to: moment.Moment,
+  ): moment.Moment[] {
+    const occurrences: moment.Moment[] = [];
+    let searchFrom = from.clone();
+    for (let i = 0; i < MAX_OCCURRENCE_STEPS; i++) {
+      const occurrence = this.getNextOccurrence(eventDate, task, searchFrom);
+      if (!occurrence || occurrence.isAfter(to, "day")) {
+        break;
       }
+      occurrences.push(occurrence);
+      searchFrom = occurrence.clone().add(1, "day");
+    }
+    return occurrences;
+  }
 
-      case "year": {
-        // Yearly event: match month+day, with lookback for this year's occurrence
-        const thisYearEvent = eventDate.clone().year(today.year());
-        const yearDiff = today.diff(thisYearEvent, "days");
+  /**
+   * Find the latest occurrence between two dates (inclusive), or null
+   */
+  private getLatestOccurrence(
+    eventDate: moment.Moment,
+    task: NotificationTask,
+    from: moment.Moment,
+    to: moment.Moment,
+  ): moment.Moment | null {
+    const occurrences = this.getOccurrencesBetween(eventDate, task, from, to);
+    return occurrences[occurrences.length - 1] ?? null;
+  }
+
+  /**
+   * Check if a task has been checked off as done or cancelled, and should no
+   * longer notify. Checked-off recurring tasks only count as closed with a ✅
+   * date, as on the completed copies the Tasks plugin leaves behind.
+   */
+  private isClosedTask(task: NotificationTask): boolean {
+    const isOneTime = !task.repeatInterval && !task.recurrenceRule;
+    return (
+      this.settings.hideCompletedTasks &&
+      task.status !== null &&
+      CLOSED_STATUSES.includes(task.status) &&
+      (isOneTime || task.doneDate !== null)
+    );
+  }
+
+  /**
+   * Work out the dates a recurring task moves on to once an occurrence is
+   * completed on doneDate: the following occurrence, and the occurrences left
+   * of a limited series counted from there. Returns null after the last
+   * occurrence.
+   */
+  getTaskAdvance(
+    task: NotificationTask,
+    occurrenceDate: string,
+    doneDate: string,
+  ): TaskAdvance | null {
+    const eventDate = moment(task.eventDate);
+    const completed = moment(occurrenceDate);
 
-        // Within lookback window for this year's occurrence (includes exact match when yearDiff === 0)
-        return yearDiff >= 0 && yearDiff <= this.settings.lookbackDays;
+    // "after done" repeats restart their cadence from the completion
+    if (task.repeatAfterDone && task.repeatInterval) {
+      const due = moment(doneDate).add(task.repeatEvery, task.repeatInterval);
+      if (task.repeatUntil && due.isAfter(task.repeatUntil, "day")) {
+        return null;
       }
+      return {
+        eventDate: due.format("YYYY-MM-DD"),
+        eventEndDate: task.eventEndDate
+          ? due
+              .clone()
+              .add(moment(task.eventEndDate).diff(eventDate, "days"), "days")
+              .format("YYYY-MM-DD")
+          : null,
+        repeatCount: task.repeatCount,
+      };
+    }
 
-      case "month": {
-        // Monthly event: match day of month (exact, no lookback)
-        return eventDate.date() === today.date();
+    // The completed occurrence may have been moved to a workday, so look for
+    // the first one that lands after it
+    let from = completed
+      .clone()
+      .subtract(task.workdayShift ? MAX_WORKDAY_SHIFT_DAYS : 0, "days");
+    let next: moment.Moment | null = null;
+    for (let i = 0; i < MAX_OCCURRENCE_STEPS && !next; i++) {
+      const occurrence = this.getNextCalendarOccurrence(eventDate, task, from);
+      if (!occurrence) {
+        return null;
+      }
+      const shifted = task.workdayShift
+        ? this.shiftToWorkday(occurrence, task.workdayShift)
+        : occurrence;
+      if (shifted.isAfter(completed, "day")) {
+        next = occurrence;
       }
+      from = occurrence.clone().add(1, "day");
+    }
+    if (!next) {
+      return null;
+    }
 
-      case "week": {
-        // Weekly event: match day of week (exact, no lookback)
-        return eventDate.day() === today.day();
+    const advanced = this.getAdvancedEventDate(eventDate, task, next);
+    const duration = task.eventEndDate
+      ? moment(task.eventEndDate).diff(eventDate, "days")
+      : 0;
+    const repeatCount = task.recurrenceRule?.count ?? task.repeatCount;
+    const passed =
+      (this.getOccurrenceNumber(eventDate, task, advanced) ?? 1) - 1;
+
+    return {
+      eventDate: advanced.format("YYYY-MM-DD"),
+      eventEndDate: task.eventEndDate
+        ? advanced.clone().add(duration, "days").format("YYYY-MM-DD")
+        : null,
+      repeatCount: repeatCount !== null ? repeatCount - passed : null,
+    };
+  }
+
+  /**
+   * Work out the 📆 date a series moves on to for its next occurrence.
+   * Monthly series step theirs by whole cadence units, to the last month up
+   * to the next occurrence that has its day, so short months still follow
+   * the month-end policy. Yearly series keep theirs, since ages and
+   * anniversaries count from it. Other series move to the next occurrence.
+   */
+  private getAdvancedEventDate(
+    eventDate: moment.Moment,
+    task: NotificationTask,
+    next: moment.Moment,
+  ): moment.Moment {
+    if (task.recurrenceRule || task.monthlyRule) {
+      return next;
+    }
+    if (task.repeatInterval === "year") {
+      return eventDate.clone();
+    }
+    if (task.repeatInterval !== "month") {
+      return next;
+    }
+
+    const day = eventDate.date();
+    let periods = Math.floor(
+      this.getElapsedUnits(next, eventDate, "month") / task.repeatEvery,
+    );
+    for (; periods > 0; periods--) {
+      const month = eventDate
+        .clone()
+        .startOf("month")
+        .add(periods * task.repeatEvery, "months");
+      if (day > month.daysInMonth()) {
+        continue;
+      }
+      const stepped = month.date(day);
+      if (!stepped.isAfter(next, "day")) {
+        return stepped;
       }
+    }
+    return eventDate.clone();
+  }
 
-      case "day": {
-        // Daily event: matches every day
+  /**
+   * Check if a repeating series has ended (past its 🔚 date or occurrence limit)
+   */
+  isSeriesEnded(task: NotificationTask, referenceDate: string): boolean {
+    const today = moment(referenceDate);
+
+    if (task.recurrenceRule) {
+      const { count, until } = task.recurrenceRule;
+      if (count === null && until === null) {
+        return false;
+      }
+      const last = getLastRuleOccurrence(task.recurrenceRule, task.eventDate);
+      return last === null || last.isBefore(today, "day");
+    }
+
+    if (!task.repeatInterval) {
+      return false;
+    }
+
+    if (task.repeatUntil && moment(task.repeatUntil).isBefore(today, "day")) {
+      return true;
+    }
+
+    // "after done" repeats can't be numbered ahead, so only 🔚 ends them
+    if (task.repeatCount !== null && !task.repeatAfterDone) {
+      // Last occurrence is (count - 1) cadence steps after the event date
+      let last = moment(task.eventDate).add(
+        (task.repeatCount - 1) * task.repeatEvery,
+        task.repeatInterval,
+      );
+      if (task.repeatInterval === "month" && task.monthlyRule) {
+        last = this.resolveMonthlyRule(last, task.monthlyRule) ?? last;
+      } else if (
+        task.repeatInterval === "month" ||
+        task.repeatInterval === "year"
+      ) {
+        last = this.placeInMonth(moment(task.eventDate), last) ?? last;
+      }
+      return last.isBefore(today, "day");
+    }
+
+    return false;
+  }
+
+  /**
+   * List the acknowledgement keys that can no longer change what shows: keys
+   * from before keys named the occurrence, and keys whose occurrence (or
+   * countdown day) is older than the longest lookback window. The latest 📌
+   * occurrence of a task and the last completion of an "after done" task are
+   * kept however old they are.
+   */
+  getStaleAcknowledgements(
+    tasks: NotificationTask[],
+    referenceDate: string,
+  ): string[] {
+    const today = moment(referenceDate);
+    const { acknowledgements } = this.settings;
+
+    // Occurrences show for their days plus the task's or the global lookback
+    let window = this.settings.lookbackDays;
+    const pinnedFrom = new Map<string, string>();
+    const afterDone = new Set<string>();
+    for (const task of tasks) {
+      const duration = task.eventEndDate
+        ? moment(task.eventEndDate).diff(task.eventDate, "days")
+        : 0;
+      window = Math.max(
+        window,
+        duration + (task.lookbackDays ?? this.settings.lookbackDays),
+      );
+
+      if (task.pinned) {
+        const latest = this.getLatestOccurrenceSince(
+          moment(task.eventDate),
+          task,
+          today,
+        );
+        if (latest) {
+          pinnedFrom.set(formatTaskKey(task), latest.format("YYYY-MM-DD"));
+        }
+      }
+      if (task.repeatAfterDone) {
+        afterDone.add(formatTaskKey(task));
+      }
+    }
+    const cutoff = today.clone().subtract(window, "days").format("YYYY-MM-DD");
+
+    // "after done" tasks count from their latest acknowledged event
+    const lastDone = new Map<string, string>();
+    for (const key of Object.keys(acknowledgements)) {
+      const parsed = parseNotificationKey(key);
+      if (
+        !parsed ||
+        parsed.notification !== "event" ||
+        !afterDone.has(parsed.taskKey)
+      ) {
+        continue;
+      }
+      const last = lastDone.get(parsed.taskKey);
+      if (
+        last === undefined ||
+        (acknowledgements[key] ?? "") > (acknowledgements[last] ?? "")
+      ) {
+        lastDone.set(parsed.taskKey, key);
+      }
+    }
+
+    return Object.keys(acknowledgements).filter((key) => {
+      const parsed = parseNotificationKey(key);
+      if (!parsed) {
         return true;
       }
+      const pinned = pinnedFrom.get(parsed.taskKey);
+      return (
+        parsed.date < cutoff &&
+        (pinned === undefined || parsed.date < pinned) &&
+        lastDone.get(parsed.taskKey) !== key
+      );
+    });
+  }
 
-      default:
-        return false;
+  /**
+   * Find the occurrence an event-day notification is about: the latest one
+   * that started on or before today and whose last day, plus the lookback
+   * window, reaches today. 📌 tasks keep their latest occurrence until it's
+   * acknowledged.
+   */
+  private getEventOccurrence(
+    eventDate: moment.Moment,
+    task: NotificationTask,
+    today: moment.Moment,
+  ): moment.Moment | null {
+    const duration = task.eventEndDate
+      ? moment(task.eventEndDate).diff(eventDate, "days")
+      : 0;
+    const lookback = task.lookbackDays ?? this.settings.lookbackDays;
+    const latest = this.getLatestOccurrence(
+      eventDate,
+      task,
+      today.clone().subtract(duration + lookback, "days"),
+      today,
+    );
+    if (latest || !task.pinned) {
+      return latest;
     }
+
+    const pinned = this.getLatestOccurrenceSince(eventDate, task, today);
+    return pinned && !this.isEventAcknowledged(task, pinned, today)
+      ? pinned
+      : null;
   }
 
   /**
-   * Calculate the reminder date for a given offset
+   * Find the latest occurrence on or before today, however long ago
    */
-  private calculateReminderDate(
+  private getLatestOccurrenceSince(
     eventDate: moment.Moment,
-    offset: ReminderOffset,
-    repeatInterval: "day" | "week" | "month" | "year" | null,
+    task: NotificationTask,
+    today: moment.Moment,
+  ): moment.Moment | null {
+    // Occurrences can be years apart, so search back in growing windows
+    // rather than stepping through every occurrence since the 📆 date
+    const start = eventDate.clone().subtract(MAX_WORKDAY_SHIFT_DAYS, "days");
+    for (let days = 32; ; days *= 2) {
+      const from = today.clone().subtract(days, "days");
+      const reachesStart = !from.isAfter(start, "day");
+      const latest = this.getLatestOccurrence(
+        eventDate,
+        task,
+        reachesStart ? start : from,
+        today,
+      );
+      if (latest || reachesStart) {
+        return latest;
+      }
+    }
+  }
+
+  /**
+   * Check if the event notification of an occurrence has been acknowledged
+   */
+  private isEventAcknowledged(
+    task: NotificationTask,
+    occurrence: moment.Moment,
     today: moment.Moment,
+  ): boolean {
+    const key = formatNotificationKey(
+      {
+        task,
+        kind: "event",
+        reminderOffset: null,
+        occurrenceDate: occurrence.format("YYYY-MM-DD"),
+      },
+      today.format("YYYY-MM-DD"),
+    );
+    return this.settings.acknowledgements[key] !== undefined;
+  }
+
+  /**
+   * Number an occurrence within its series, counting the 📆 date as 1.
+   * Returns null for one-time events, and for the occurrences uncounted
+   * series have before their 📆 date.
+   */
+  private getOccurrenceNumber(
+    eventDate: moment.Moment,
+    task: NotificationTask,
+    occurrence: moment.Moment,
+  ): number | null {
+    if (task.recurrenceRule) {
+      const count = getRuleOccurrences(
+        task.recurrenceRule,
+        task.eventDate,
+        eventDate,
+        occurrence,
+      ).length;
+      return count > 0 ? count : null;
+    }
+
+    const { repeatInterval, repeatEvery } = task;
+    if (!repeatInterval || task.repeatAfterDone) {
+      return null;
+    }
+
+    // Monthly rules land on a different day each month, so count months
+    const elapsed =
+      repeatInterval === "month" && task.monthlyRule
+        ? this.getElapsedUnits(occurrence, eventDate, "month")
+        : occurrence.diff(eventDate, repeatInterval, true);
+
+    // Rounding absorbs workday shifts and month-end clamping
+    const number = Math.round(elapsed / repeatEvery) + 1;
+    return number > 0 ? number : null;
+  }
+
+  /**
+   * Find the first occurrence of a task on or after a date, moved off
+   * non-working days for tasks marked ⏮ workday / ⏭ workday
+   */
+  private getNextOccurrence(
+    eventDate: moment.Moment,
+    task: NotificationTask,
+    from: moment.Moment,
   ): moment.Moment | null {
+    if (!task.workdayShift) {
+      return this.getNextCalendarOccurrence(eventDate, task, from);
+    }
+
+    // A shift moves an occurrence by a limited number of days, so start early
+    let searchFrom = from.clone().subtract(MAX_WORKDAY_SHIFT_DAYS, "days");
+    for (let i = 0; i < MAX_OCCURRENCE_STEPS; i++) {
+      const occurrence = this.getNextCalendarOccurrence(
+        eventDate,
+        task,
+        searchFrom,
+      );
+      if (!occurrence) {
+        return null;
+      }
+
+      const shifted = this.shiftToWorkday(occurrence, task.workdayShift);
+      if (!shifted.isBefore(from, "day")) {
+        return shifted;
+      }
+      searchFrom = occurrence.clone().add(1, "day");
+    }
+
+    return null;
+  }
+
+  /**
+   * Move a date to the previous or next working day (unchanged if it is one)
+   */
+  private shiftToWorkday(
+    date: moment.Moment,
+    shift: WorkdayShift,
+  ): moment.Moment {
+    const shifted = date.clone();
+    for (
+      let i = 0;
+      i < MAX_WORKDAY_SHIFT_DAYS && !this.isWorkday(shifted);
+      i++
+    ) {
+      shifted.add(shift === "previous" ? -1 : 1, "day");
+    }
+    // With no working day in reach there's nowhere to move to
+    return this.isWorkday(shifted) ? shifted : date.clone();
+  }
+
+  /**
+   * Check if a date is a working day (not a non-working weekday or a holiday)
+   */
+  private isWorkday(date: moment.Moment): boolean {
+    return (
+      !this.settings.nonWorkingDays.includes(date.day()) &&
+      !this.holidayDates.has(date.format("YYYY-MM-DD"))
+    );
+  }
+
+  /**
+   * Find the first calendar occurrence of a task on or after a date
+   */
+  private getNextCalendarOccurrence(
+    eventDate: moment.Moment,
+    task: NotificationTask,
+    from: moment.Moment,
+  ): moment.Moment | null {
+    const { repeatInterval, repeatEvery, monthlyRule } = task;
+
+    if (task.recurrenceRule) {
+      return getNextRuleOccurrence(task.recurrenceRule, task.eventDate, from);
+    }
+
+    if (task.repeatAfterDone && repeatInterval) {
+      const due = this.getDueAfterDone(eventDate, task);
+      return due.isBefore(from, "day") ||
+        (task.repeatUntil && due.isAfter(task.repeatUntil, "day"))
+        ? null
+        : due;
+    }
+
+    // Counted series have no occurrences before the 📆 date
+    if (task.repeatCount !== null && from.isBefore(eventDate, "day")) {
+      from = eventDate;
+    }
+
     let targetEvent = eventDate.clone();
 
-    // For repeating events, find the next occurrence from today
     switch (repeatInterval) {
       case "year": {
-        // Adjust to current/next year
-        targetEvent.year(today.year());
-        if (targetEvent.isBefore(today, "day")) {
-          targetEvent.add(1, "year");
-        }
-        break;
+        return this.nextDayOfMonthOccurrence(eventDate, task, "year", from);
       }
 
       case "month": {
-        // Adjust to current/next month
-        targetEvent.month(today.month()).year(today.year());
-        if (targetEvent.isBefore(today, "day")) {
-          targetEvent.add(1, "month");
+        // Monthly rule: find the next resolved day on the cadence
+        if (monthlyRule) {
+          const next = this.nextMonthlyRuleOccurrence(
+            eventDate,
+            monthlyRule,
+            repeatEvery,
+            from,
+          );
+          return next && this.isWithinSeries(next, eventDate, task)
+            ? next
+            : null;
         }
-        break;
+
+        return this.nextDayOfMonthOccurrence(eventDate, task, "month", from);
       }
 
       case "week": {
         // Find next occurrence of this day of week
-        const dayOfWeek = eventDate.day();
-        const todayDayOfWeek = today.day();
-
-        targetEvent = today.clone().day(dayOfWeek);
-        if (dayOfWeek <= todayDayOfWeek) {
+        targetEvent = from.clone().day(eventDate.day());
+        if (targetEvent.isBefore(from, "day")) {
           targetEvent.add(1, "week");
         }
         break;
       }
 
       case "day": {
-        // Daily events: reminder is offset from today
-        targetEvent = today.clone();
+        targetEvent = from.clone();
         break;
       }
 
       case null: {
         // One-time event: use the event date as-is
-        break;
+        return targetEvent.isBefore(from, "day") ? null : targetEvent;
       }
     }
 
-    // Subtract the reminder offset from the target event
-    const reminderDate = targetEvent.subtract(offset.number, offset.unit);
+    // For "every N" intervals, skip ahead to the next occurrence on the cadence
+    while (
+      !this.isOnCadence(targetEvent, eventDate, repeatInterval, repeatEvery)
+    ) {
+      targetEvent.add(1, repeatInterval);
+    }
+
+    // No occurrences after the series has ended
+    return this.isWithinSeries(targetEvent, eventDate, task)
+      ? targetEvent
+      : null;
+  }
+
+  /**
+   * Work out when an "after done" task is next due: one cadence step after
+   * its last completion, taken from the ✅ date on the line or the latest
+   * acknowledged event notification. Falls back to the 📆 date until the
+   * task has been completed since then.
+   */
+  private getDueAfterDone(
+    eventDate: moment.Moment,
+    task: NotificationTask,
+  ): moment.Moment {
+    const start = eventDate.format("YYYY-MM-DD");
+
+    let lastDone =
+      task.doneDate !== null && task.doneDate >= start ? task.doneDate : null;
+    for (const { occurrenceDate, ackDate } of this.getEventAcknowledgements(
+      task,
+    )) {
+      if (
+        occurrenceDate >= start &&
+        (lastDone === null || ackDate > lastDone)
+      ) {
+        lastDone = ackDate;
+      }
+    }
+
+    return lastDone !== null && task.repeatInterval
+      ? moment(lastDone).add(task.repeatEvery, task.repeatInterval)
+      : eventDate.clone();
+  }
+
+  /**
+   * List the acknowledged event notifications of a task, with the day each
+   * was acknowledged. The acknowledgements are indexed by task on first use,
+   * rather than scanned for every occurrence searched.
+   */
+  private getEventAcknowledgements(
+    task: NotificationTask,
+  ): { occurrenceDate: string; ackDate: string }[] {
+    if (!this.eventAcknowledgements) {
+      this.eventAcknowledgements = new Map();
+      for (const key of Object.keys(this.settings.acknowledgements)) {
+        const parsed = parseNotificationKey(key);
+        const ackDate = this.settings.acknowledgements[key];
+        if (!parsed || parsed.notification !== "event" || !ackDate) {
+          continue;
+        }
+        const acks = this.eventAcknowledgements.get(parsed.taskKey) ?? [];
+        acks.push({ occurrenceDate: parsed.date, ackDate });
+        this.eventAcknowledgements.set(parsed.taskKey, acks);
+      }
+    }
+    return this.eventAcknowledgements.get(formatTaskKey(task)) ?? [];
+  }
+
+  /**
+   * Find the first monthly or yearly occurrence on or after a date, with the
+   * event's day of the month placed by the month-end policy
+   */
+  private nextDayOfMonthOccurrence(
+    eventDate: moment.Moment,
+    task: NotificationTask,
+    unit: "month" | "year",
+    from: moment.Moment,
+  ): moment.Moment | null {
+    const { repeatEvery, repeatCount, repeatUntil } = task;
+    const firstMonth = eventDate.clone().startOf("month");
+
+    // Start a cycle early, since a rolled-over occurrence lands in the next month
+    let period =
+      Math.floor(this.getElapsedUnits(from, eventDate, unit) / repeatEvery) - 1;
+    for (let i = 0; i < MAX_OCCURRENCE_STEPS; i++, period++) {
+      // The occurrence on the 📆 date is number 0
+      if (repeatCount !== null && period >= repeatCount) {
+        return null;
+      }
+      if (repeatCount !== null && period < 0) {
+        continue;
+      }
+
+      const month = firstMonth.clone().add(period * repeatEvery, unit);
+      const occurrence = this.placeInMonth(eventDate, month);
+      if (!occurrence) {
+        continue;
+      }
+      if (repeatUntil && occurrence.isAfter(repeatUntil, "day")) {
+        return null;
+      }
+      if (!occurrence.isBefore(from, "day")) {
+        return occurrence;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Place the event's day of the month in a month. Months too short for it
+   * follow the month-end policy; null when the policy skips them.
+   */
+  private placeInMonth(
+    eventDate: moment.Moment,
+    month: moment.Moment,
+  ): moment.Moment | null {
+    const start = month.clone().startOf("month");
+    if (eventDate.date() <= start.daysInMonth()) {
+      return start.date(eventDate.date());
+    }
+
+    switch (this.settings.monthEndPolicy) {
+      case "rollOver":
+        return start.add(1, "month");
+      case "skip":
+        return null;
+      default:
+        return start.date(start.daysInMonth());
+    }
+  }
+
+  /**
+   * Combine an occurrence day with the task's ⏰ time (midnight for all-day events)
+   */
+  private withEventTime(
+    occurrence: moment.Moment,
+    task: NotificationTask,
+  ): moment.Moment {
+    const instant = occurrence.clone().startOf("day");
+    if (task.eventTime) {
+      const [hour, minute] = task.eventTime.split(":").map((n) => parseInt(n));
+      instant.set({ hour: hour ?? 0, minute: minute ?? 0 });
+    }
+    return instant;
+  }
+
+  /**
+   * Check if a date falls on an "every N units" cadence anchored on the event date
+   */
+  private isOnCadence(
+    date: moment.Moment,
+    eventDate: moment.Moment,
+    unit: RepeatUnit,
+    every: number,
+  ): boolean {
+    if (every <= 1) {
+      return true;
+    }
+
+    const elapsed = this.getElapsedUnits(date, eventDate, unit);
+    return ((elapsed % every) + every) % every === 0;
+  }
+
+  /**
+   * Check if an occurrence is inside the series' 🔚 date and occurrence limit
+   */
+  private isWithinSeries(
+    occurrence: moment.Moment,
+    eventDate: moment.Moment,
+    task: NotificationTask,
+  ): boolean {
+    if (task.repeatUntil && occurrence.isAfter(task.repeatUntil, "day")) {
+      return false;
+    }
+
+    if (task.repeatCount !== null && task.repeatInterval) {
+      // The occurrence on the 📆 date is number 0
+      const index = Math.floor(
+        this.getElapsedUnits(occurrence, eventDate, task.repeatInterval) /
+          task.repeatEvery,
+      );
+      return index >= 0 && index < task.repeatCount;
+    }
+
+    return true;
+  }
+
+  /**
+   * Count whole calendar units between the event date and a date
+   */
+  private getElapsedUnits(
+    date: moment.Moment,
+    eventDate: moment.Moment,
+    unit: RepeatUnit,
+  ): number {
+    switch (unit) {
+      case "year":
+        return date.year() - eventDate.year();
+      case "month":
+        return (
+          (date.year() - eventDate.year()) * 12 +
+          (date.month() - eventDate.month())
+        );
+      case "week":
+        return Math.floor(date.diff(eventDate, "days") / 7);
+      case "day":
+        return date.diff(eventDate, "days");
+    }
+  }
+
+  /**
+   * Resolve a monthly rule (e.g. "2nd Tuesday", "last workday") within the
+   * month of the given date. Returns null if the month has no such day.
+   */
+  private resolveMonthlyRule(
+    month: moment.Moment,
+    rule: MonthlyRule,
+  ): moment.Moment | null {
+    const candidates: moment.Moment[] = [];
+    const day = month.clone().startOf("month");
+    const daysInMonth = month.daysInMonth();
+
+    for (let i = 0; i < daysInMonth; i++) {
+      const weekday = day.day();
+      const isCandidate =
+        rule.target === "day" ||
+        (rule.target === "workday" && this.isWorkday(day)) ||
+        rule.target === weekday;
+      if (isCandidate) {
+        candidates.push(day.clone());
+      }
+      day.add(1, "day");
+    }
+
+    const match =
+      rule.ordinal === -1
+        ? candidates[candidates.length - 1]
+        : candidates[rule.ordinal - 1];
+    return match ?? null;
+  }
+
+  /**
+   * Find the first occurrence of a monthly rule on or after today
+   */
+  private nextMonthlyRuleOccurrence(
+    eventDate: moment.Moment,
+    rule: MonthlyRule,
+    repeatEvery: number,
+    today: moment.Moment,
+  ): moment.Moment | null {
+    const month = today.clone().startOf("month");
+
+    // A "5th weekday" can be missing for a few months in a row, so search
+    // a couple of cycles ahead before giving up
+    const maxMonths = (repeatEvery + 1) * 12;
+    for (let i = 0; i < maxMonths; i++) {
+      if (this.isOnCadence(month, eventDate, "month", repeatEvery)) {
+        const occurrence = this.resolveMonthlyRule(month, rule);
+        if (occurrence && !occurrence.isBefore(today, "day")) {
+          return occurrence;
+        }
+      }
+      month.add(1, "month");
+    }
 
-    return reminderDate;
+    return null;
   }
 
   /**
@@ -173,7 +1423,7 @@ export class NotificationMatcher {
    */
   private getEventDateContext(
     daysDiff: number,
-    repeatInterval: "day" | "week" | "month" | "year" | null,
+    repeatInterval: RepeatUnit | null,
   ): string {
     if (daysDiff === 0) {
       return "today";
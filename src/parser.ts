@@ -1,5 +1,126 @@
 import { moment } from "obsidian";
-import { ReminderOffset } from "./types";
+import {
+  MonthlyRule,
+  MonthlyRuleTarget,
+  ParseProblem,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  RecurrenceWeekday,
+  ReminderOffset,
+  ReminderUnit,
+  MarkerVocabulary,
+  RepeatUnit,
+  SyntaxDialect,
+  TaskAdvance,
+  WorkdayShift,
+} from "./types";
+
+// Matches "🔁 week", "🔁 every week", "🔁 every 2 weeks", "🔁 2 weeks" and
+// "🔁 weekly", but not other words starting with a unit ("🔁 every weekday")
+const REPEAT_PATTERN =
+  /🔁\s*(?:every\s+)?(?:(\d+)\s*)?(?:(day|week|month|year)s?|(week|month|year)ly)\b/;
+
+// Matches repeats counted from the last completion: "🔁 3 month after done",
+// "🔁 every week when done"
+const AFTER_DONE_PATTERN = /🔁[^🔔📆🔚]*?\b(?:after|when)\s+done\b/iu;
+
+// Matches a per-task lookback window: "⏪ 14"
+const LOOKBACK_PATTERN = /⏪\uFE0F?\s*(\d+)\b/u;
+
+// Matches the completion date written by the Tasks plugin: "✅ 2025-03-02"
+const DONE_DATE_PATTERN = /✅\uFE0F?\s*(\d{4}-\d{2}-\d{2})/u;
+
+// Matches the agenda option of a notify block: "range: 14", "range: 2 weeks"
+const BLOCK_RANGE_PATTERN = /^\s*range\s*:\s*(\d+)\s*(?:(day|week)s?)?\s*$/im;
+
+// Matches the occurrence limit in "🔁 month x12", "🔁 every 2 weeks x6"
+const REPEAT_COUNT_PATTERN = /🔁[^🔔📆🔚]*?\bx(\d+)\b/u;
+
+// Matches "🔁 month on 2nd tue", "🔁 every 3 months on last workday"
+const MONTHLY_RULE_PATTERN =
+  /🔁\s*(?:every\s+)?(?:\d+\s*)?months?\s+on\s+(?:the\s+)?(1st|2nd|3rd|4th|5th|first|second|third|fourth|fifth|last)\s+([a-z]+(?:\s+day)?)/i;
+
+const ORDINALS: Record<string, number> = {
+  "1st": 1,
+  "2nd": 2,
+  "3rd": 3,
+  "4th": 4,
+  "5th": 5,
+  first: 1,
+  second: 2,
+  third: 3,
+  fourth: 4,
+  fifth: 5,
+  last: -1,
+};
+
+const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+// Matches "RRULE:FREQ=MONTHLY;BYDAY=2TU" or the inline "FREQ=MONTHLY;BYDAY=2TU"
+const RRULE_PATTERN = /(?:RRULE:)?(FREQ=[A-Z]+(?:;[A-Z]+=[^;\s]+)*)/i;
+
+// Matches a separate "EXDATE:20250311,20250408" token
+const EXDATE_PATTERN = /EXDATE:([\dTZ,-]+)/i;
+
+const RRULE_WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+// Matches the countdown window in "🔔 daily 1 week before", "🔔 daily 10 days before"
+const DAILY_REMINDER_PATTERN =
+  /🔔\s*daily\s+(\d+)\s*(day|week|month|year)s?\s+before/i;
+
+// Tasks plugin dates, in order of preference: 📅 due, ⏳ scheduled, 🛫 start
+const TASKS_DATE_PATTERN = /(📅|⏳|🛫)\uFE0F?\s*(\d{4}-\d{2}-\d{2})/gu;
+const TASKS_DATE_PRIORITY = ["📅", "⏳", "🛫"];
+
+// Dataview inline fields: [due:: 2025-05-01], (scheduled:: 2025-05-01)
+const DATAVIEW_DATE_PATTERN =
+  /[[(](due|scheduled|start)::\s*(\d{4}-\d{2}-\d{2})\s*[\])]/gi;
+const DATAVIEW_DATE_PRIORITY = ["due", "scheduled", "start"];
+const DATAVIEW_REPEAT_PATTERN = /[[(]repeat::\s*([^\])]+?)\s*[\])]/i;
+
+// Where the title of a task in another dialect ends: at the first Tasks
+// plugin emoji (priorities, 🔁, ➕ created and the dates), 🔔 or Dataview
+// inline field. Tasks writes priorities, 🔁 and ➕ before its dates.
+const DIALECT_TITLE_END_PATTERN =
+  /🔺|⏫|🔼|🔽|⏬|🔁|➕|🛫|⏳|📅|✅|❌|🔔|[[(][\w-]+::/u;
+
+// What an event date can be written after: 📆, a Tasks plugin date or a
+// Dataview inline field (custom date markers are added to it)
+const DATE_MARKER_PATTERN = "📆|📅|⏳|🛫|[[(](?:due|scheduled|start)::";
+
+const ASCII_OFFSET_UNITS: Record<string, ReminderUnit> = {
+  y: "year",
+  mo: "month",
+  w: "week",
+  d: "day",
+  h: "hour",
+  min: "minute",
+};
+
+// Common ways of writing a repeat that 🔁 doesn't understand, with the fix
+// ("weekly", "monthly" and "yearly" already read as week, month and year)
+const REPEAT_TYPOS: Record<string, string> = {
+  daily: "day",
+  weekday: "RRULE:FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR",
+  "every weekday": "RRULE:FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR",
+  annually: "year",
+  annual: "year",
+  fortnightly: "every 2 weeks",
+  biweekly: "every 2 weeks",
+  quarterly: "every 3 months",
+};
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
 
 export class TaskParser {
   /**
@@ -9,6 +130,113 @@ export class TaskParser {
     return text.includes("🔔");
   }
 
+  /**
+   * Rewrite user-chosen markers (e.g. "@notify", "due:", "every:",
+   * "remind: 2 weeks") into the emoji the extractors below read. The emoji
+   * themselves always keep working.
+   */
+  static applyVocabulary(text: string, vocabulary: MarkerVocabulary): string {
+    let result = text;
+
+    for (const token of TaskParser.sortTokens(vocabulary.notify)) {
+      result = result.split(token).join("🔔");
+    }
+
+    for (const token of TaskParser.sortTokens(vocabulary.date)) {
+      result = result.replace(
+        new RegExp(`${escapeRegExp(token)}\\s*(?=\\d{4}-\\d{2}-\\d{2})`, "g"),
+        "📆 ",
+      );
+    }
+
+    for (const token of TaskParser.sortTokens(vocabulary.repeat)) {
+      result = result.replace(
+        new RegExp(`${escapeRegExp(token)}\\s*(?=\\S)`, "g"),
+        "🔁 ",
+      );
+    }
+
+    // "remind: 10 days" -> "1️⃣0️⃣ day"
+    for (const token of TaskParser.sortTokens(vocabulary.offset)) {
+      result = result.replace(
+        new RegExp(
+          `${escapeRegExp(token)}\\s*(\\d+)\\s*(minute|hour|day|week|month|year)s?\\b`,
+          "g",
+        ),
+        (_match, num: string, unit: string) =>
+          `${num.replace(/\d/g, "$&\uFE0F\u20E3")} ${unit}`,
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Drop empty tokens and try longer tokens first, so "due" can't match
+   * inside "due:"
+   */
+  private static sortTokens(tokens: string[]): string[] {
+    return tokens
+      .filter((t) => t.length > 0)
+      .sort((a, b) => b.length - a.length);
+  }
+
+  /**
+   * Rewrite the dates and repeats of other task dialects into this plugin's
+   * syntax, so the extractors below can read them. The preferred dialect
+   * date becomes the 📆 date (unless the text has one) and the others are
+   * dropped. Returns the text unchanged when no dialect notation is found.
+   */
+  static applyDialects(text: string, dialects: SyntaxDialect[]): string {
+    const candidates: { priority: number; date: string; match: string }[] = [];
+    let match;
+
+    if (dialects.includes("tasks")) {
+      const regex = new RegExp(TASKS_DATE_PATTERN);
+      while ((match = regex.exec(text)) !== null) {
+        candidates.push({
+          priority: TASKS_DATE_PRIORITY.indexOf(match[1] ?? ""),
+          date: match[2] ?? "",
+          match: match[0],
+        });
+      }
+    }
+
+    let result = text;
+    if (dialects.includes("dataview")) {
+      const regex = new RegExp(DATAVIEW_DATE_PATTERN);
+      while ((match = regex.exec(text)) !== null) {
+        candidates.push({
+          priority: DATAVIEW_DATE_PRIORITY.indexOf(
+            (match[1] ?? "").toLowerCase(),
+          ),
+          date: match[2] ?? "",
+          match: match[0],
+        });
+      }
+
+      // [repeat:: every week] -> 🔁 every week
+      result = result.replace(DATAVIEW_REPEAT_PATTERN, "🔁 $1");
+    }
+
+    if (candidates.length === 0 || TaskParser.extractDate(text)) {
+      return result;
+    }
+
+    const preferred = candidates.reduce((best, c) =>
+      c.priority < best.priority ? c : best,
+    );
+
+    // The 📆 date goes right after the title, which extractTitle ends there
+    const titleEnd = result.search(DIALECT_TITLE_END_PATTERN);
+    let rest = result.slice(titleEnd);
+    for (const candidate of candidates) {
+      rest = rest.replace(candidate.match, "");
+    }
+    result = `${result.slice(0, titleEnd)} 📆 ${preferred.date} ${rest}`;
+    return result.replace(/(\S)\s{2,}/g, "$1 ").trimEnd();
+  }
+
   /**
    * Extract the event date from task text
    * Format: 📆 YYYY-MM-DD
@@ -18,49 +246,414 @@ export class TaskParser {
     return match?.[1] ?? null;
   }
 
+  /**
+   * Extract the end date of a multi-day event
+   * Format: 📆 YYYY-MM-DD..YYYY-MM-DD (null unless the end is after the start)
+   */
+  static extractEndDate(text: string): string | null {
+    const match = text.match(
+      /📆\s*(\d{4}-\d{2}-\d{2})\s*\.\.\s*(\d{4}-\d{2}-\d{2})/,
+    );
+    if (!match?.[1] || !match[2] || match[2] <= match[1]) {
+      return null;
+    }
+    return match[2];
+  }
+
+  /**
+   * Extract the event time from task text
+   * Format: ⏰ HH:mm (24-hour clock)
+   */
+  static extractTime(text: string): string | null {
+    const match = text.match(/⏰\s*(\d{1,2}):(\d{2})/);
+    if (!match?.[1] || !match[2]) {
+      return null;
+    }
+
+    const hour = parseInt(match[1]);
+    const minute = parseInt(match[2]);
+    if (hour > 23 || minute > 59) {
+      return null;
+    }
+
+    return `${hour < 10 ? "0" : ""}${hour}:${match[2]}`;
+  }
+
+  /**
+   * Extract the workday shift for occurrences on non-working days
+   * Format: ⏮ workday (previous working day), ⏭ workday (next working day)
+   */
+  static extractWorkdayShift(text: string): WorkdayShift | null {
+    const match = text.match(/(⏮|⏭)\uFE0F?\s*workday/u);
+    if (!match) {
+      return null;
+    }
+    return match[1] === "⏮" ? "previous" : "next";
+  }
+
+  /**
+   * Check if a task keeps showing until it's acknowledged
+   * Format: 📌
+   */
+  static extractPinned(text: string): boolean {
+    return text.includes("📌");
+  }
+
+  /**
+   * Extract a lookback window for this task, in days
+   * Format: ⏪ 14
+   */
+  static extractLookbackDays(text: string): number | null {
+    const match = text.match(LOOKBACK_PATTERN);
+    return match?.[1] ? parseInt(match[1]) : null;
+  }
+
   /**
    * Extract the repeat interval
-   * Format: 🔁 day|week|month|year
+   * Format: 🔁 day|week|month|year or 🔁 every [N] days|weeks|months|years
    */
-  static extractRepeatInterval(
-    text: string,
-  ): "day" | "week" | "month" | "year" | null {
-    const match = text.match(/🔁\s*(day|week|month|year)/);
-    if (match) {
-      return match[1] as "day" | "week" | "month" | "year";
+  static extractRepeatInterval(text: string): RepeatUnit | null {
+    const match = text.match(REPEAT_PATTERN);
+    const unit = match?.[2] ?? match?.[3];
+    return unit ? (unit as RepeatUnit) : null;
+  }
+
+  /**
+   * Extract the repeat interval count
+   * Format: 🔁 every N units (defaults to 1 when no count is given)
+   */
+  static extractRepeatEvery(text: string): number {
+    const match = text.match(REPEAT_PATTERN);
+    const count = match?.[1] ? parseInt(match[1]) : 1;
+    return count > 0 ? count : 1;
+  }
+
+  /**
+   * Check if a task repeats from its last completion rather than its 📆 date
+   * Format: 🔁 3 month after done, 🔁 every week when done
+   */
+  static extractRepeatAfterDone(text: string): boolean {
+    return AFTER_DONE_PATTERN.test(text);
+  }
+
+  /**
+   * Extract the end date of a repeating series
+   * Format: 🔚 YYYY-MM-DD
+   */
+  static extractRepeatUntil(text: string): string | null {
+    const match = text.match(/🔚\s*(\d{4}-\d{2}-\d{2})/);
+    return match?.[1] ?? null;
+  }
+
+  /**
+   * Extract the date a task was completed
+   * Format: ✅ YYYY-MM-DD
+   */
+  static extractDoneDate(text: string): string | null {
+    const match = text.match(DONE_DATE_PATTERN);
+    return match?.[1] ?? null;
+  }
+
+  /**
+   * Extract the occurrence limit of a repeating series
+   * Format: 🔁 month x12
+   */
+  static extractRepeatCount(text: string): number | null {
+    const match = text.match(REPEAT_COUNT_PATTERN);
+    const count = match?.[1] ? parseInt(match[1]) : 0;
+    return count > 0 ? count : null;
+  }
+
+  /**
+   * Extract a monthly recurrence rule
+   * Format: 🔁 month on 1st|2nd|3rd|4th|5th|last mon..sun|day|workday
+   */
+  static extractMonthlyRule(text: string): MonthlyRule | null {
+    const match = text.match(MONTHLY_RULE_PATTERN);
+    if (!match?.[1] || !match[2]) {
+      return null;
     }
-    return null;
+
+    const ordinal = ORDINALS[match[1].toLowerCase()];
+    const target = TaskParser.parseMonthlyRuleTarget(match[2].toLowerCase());
+    if (ordinal === undefined || target === null) {
+      return null;
+    }
+
+    return { ordinal, target };
+  }
+
+  /**
+   * Parse the day part of a monthly rule ("tue", "friday", "day", "workday")
+   */
+  private static parseMonthlyRuleTarget(
+    word: string,
+  ): MonthlyRuleTarget | null {
+    if (word === "day") {
+      return "day";
+    }
+    if (word === "workday" || word === "weekday" || word === "business day") {
+      return "workday";
+    }
+
+    // Accept full names and abbreviations ("tue", "tues", "tuesday")
+    const weekday =
+      word.length >= 3
+        ? WEEKDAYS.findIndex((name) => name.startsWith(word))
+        : -1;
+    return weekday >= 0 ? weekday : null;
+  }
+
+  /**
+   * Extract an iCalendar recurrence rule
+   * Format: RRULE:FREQ=...;INTERVAL=...;BYDAY=...;COUNT=...;UNTIL=... with an
+   * optional EXDATE:date,date token (dates as YYYYMMDD or YYYY-MM-DD)
+   */
+  static extractRecurrenceRule(text: string): RecurrenceRule | null {
+    const match = text.match(RRULE_PATTERN);
+    if (!match?.[1]) {
+      return null;
+    }
+
+    const rule: RecurrenceRule = {
+      freq: "DAILY",
+      interval: 1,
+      byDay: [],
+      byMonthDay: [],
+      byMonth: [],
+      count: null,
+      until: null,
+      exDates: [],
+    };
+
+    for (const part of match[1].split(";")) {
+      const [rawKey, rawValue] = part.split("=");
+      const key = rawKey?.toUpperCase();
+      const value = rawValue?.toUpperCase() ?? "";
+      const values = value.split(",");
+
+      switch (key) {
+        case "FREQ": {
+          if (!["DAILY", "WEEKLY", "MONTHLY", "YEARLY"].includes(value)) {
+            return null;
+          }
+          rule.freq = value as RecurrenceFrequency;
+          break;
+        }
+        case "INTERVAL": {
+          const interval = parseInt(value);
+          rule.interval = interval > 0 ? interval : 1;
+          break;
+        }
+        case "COUNT": {
+          const count = parseInt(value);
+          rule.count = count > 0 ? count : null;
+          break;
+        }
+        case "UNTIL": {
+          rule.until = TaskParser.parseRuleDate(value);
+          break;
+        }
+        case "BYDAY": {
+          rule.byDay = values
+            .map((v) => TaskParser.parseRuleWeekday(v))
+            .filter((d): d is RecurrenceWeekday => d !== null);
+          break;
+        }
+        case "BYMONTHDAY": {
+          rule.byMonthDay = values
+            .map((v) => parseInt(v))
+            .filter((d) => !isNaN(d) && d !== 0 && Math.abs(d) <= 31);
+          break;
+        }
+        case "BYMONTH": {
+          rule.byMonth = values
+            .map((v) => parseInt(v))
+            .filter((m) => m >= 1 && m <= 12);
+          break;
+        }
+        case "EXDATE": {
+          rule.exDates.push(...TaskParser.parseRuleDates(values));
+          break;
+        }
+      }
+    }
+
+    const exDateMatch = text.match(EXDATE_PATTERN);
+    if (exDateMatch?.[1]) {
+      rule.exDates.push(
+        ...TaskParser.parseRuleDates(exDateMatch[1].split(",")),
+      );
+    }
+
+    return rule;
+  }
+
+  /**
+   * Parse an RRULE date (20250311, 20250311T090000Z or 2025-03-11) to YYYY-MM-DD
+   */
+  private static parseRuleDate(value: string): string | null {
+    const match = value.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+    if (!match) {
+      return null;
+    }
+    const date = `${match[1]}-${match[2]}-${match[3]}`;
+    return moment(date, "YYYY-MM-DD", true).isValid() ? date : null;
+  }
+
+  private static parseRuleDates(values: string[]): string[] {
+    return values
+      .map((v) => TaskParser.parseRuleDate(v))
+      .filter((d): d is string => d !== null);
+  }
+
+  /**
+   * Parse a BYDAY entry ("MO", "2TU", "-1FR")
+   */
+  private static parseRuleWeekday(value: string): RecurrenceWeekday | null {
+    const match = value.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+    if (!match?.[2]) {
+      return null;
+    }
+    const ordinal = match[1] ? parseInt(match[1]) : null;
+    return {
+      weekday: RRULE_WEEKDAYS.indexOf(match[2]),
+      ordinal: ordinal === 0 ? null : ordinal,
+    };
   }
 
   /**
    * Extract all reminder offsets from task text
-   * Format: 1️⃣ week, 2️⃣ day, etc.
+   * Format: 1️⃣ week, 2️⃣ day, 1️⃣0️⃣ day, 🔟 day, 3️⃣ hour, etc.
+   * or ASCII: 🔔-10d, 🔔-1w3d, 🔔-18mo, 🔔-2h30min
    */
   static extractReminderOffsets(text: string): ReminderOffset[] {
     const offsets: ReminderOffset[] = [];
 
-    // Match patterns like "1️⃣ week", "2️⃣ day", etc.
+    // Match patterns like "1️⃣ week", "1️⃣0️⃣ day", "🔟 day", etc.
     // Emoji numbers can have different encodings:
     // - \u0031\uFE0F\u20E3 (digit + variation selector + keycap)
     // - \u0031\u200D\u20E3 (digit + zero-width joiner + keycap)
-    // So we match: digit + optional variation selector/joiner + keycap
-    const regex = /([1-9])[\uFE0F\u200D]?\u20E3\s*(day|week|month|year)/g;
+    // So we match: one or more of digit + optional variation selector/joiner + keycap
+    const regex =
+      /((?:[0-9][\uFE0F\u200D]?\u20E3)+|🔟)\s*(minute|hour|day|week|month|year)/gu;
+    let match;
+
+    // Follow-up keycaps ("➕1️⃣ week") count forwards, so leave them out
+    const reminderText = text.replace(
+      /➕\s*(?:(?:[0-9][\uFE0F\u200D]?\u20E3)+|🔟)/gu,
+      "",
+    );
+
+    while ((match = regex.exec(reminderText)) !== null) {
+      const keycaps = match[1];
+      const unit = match[2];
+      if (keycaps && unit) {
+        const num = TaskParser.parseKeycapNumber(keycaps);
+        if (num > 0) {
+          offsets.push({
+            number: num,
+            unit: unit as ReminderUnit,
+          });
+        }
+      }
+    }
+
+    // Match ASCII offsets like "🔔-10d" and "🔔-1w3d"
+    const asciiRegex = /🔔-((?:\d+(?:y|mo|w|d|h|min))+)(?![a-z])/gi;
+    while ((match = asciiRegex.exec(text)) !== null) {
+      const offset = TaskParser.parseAsciiOffset(match[1] ?? "");
+      if (offset) {
+        offsets.push(offset);
+      }
+    }
+
+    return offsets;
+  }
+
+  /**
+   * Extract all follow-up offsets (reminders after the event) from task text
+   * Format: ➕1️⃣ week, ➕3️⃣ day, ➕1️⃣0️⃣ day, etc.
+   * or ASCII: 🔔+3d, 🔔+1w3d
+   */
+  static extractFollowUpOffsets(text: string): ReminderOffset[] {
+    const offsets: ReminderOffset[] = [];
+
+    const regex =
+      /➕\s*((?:[0-9][\uFE0F\u200D]?\u20E3)+|🔟)\s*(minute|hour|day|week|month|year)/gu;
     let match;
 
     while ((match = regex.exec(text)) !== null) {
-      const num = match[1];
+      const keycaps = match[1];
       const unit = match[2];
-      if (num && unit) {
-        offsets.push({
-          number: parseInt(num),
-          unit: unit as "day" | "week" | "month" | "year",
-        });
+      if (keycaps && unit) {
+        const num = TaskParser.parseKeycapNumber(keycaps);
+        if (num > 0) {
+          offsets.push({
+            number: num,
+            unit: unit as ReminderUnit,
+          });
+        }
+      }
+    }
+
+    const asciiRegex = /🔔\+((?:\d+(?:y|mo|w|d|h|min))+)(?![a-z])/gi;
+    while ((match = asciiRegex.exec(text)) !== null) {
+      const offset = TaskParser.parseAsciiOffset(match[1] ?? "");
+      if (offset) {
+        offsets.push(offset);
       }
     }
 
     return offsets;
   }
 
+  /**
+   * Extract the window of a daily countdown reminder
+   * Format: 🔔 daily 1 week before, 🔔 daily 10 days before
+   */
+  static extractDailyReminder(text: string): ReminderOffset | null {
+    const match = text.match(DAILY_REMINDER_PATTERN);
+    if (!match?.[1] || !match[2]) {
+      return null;
+    }
+    const num = parseInt(match[1]);
+    if (num <= 0) {
+      return null;
+    }
+    return { number: num, unit: match[2].toLowerCase() as ReminderUnit };
+  }
+
+  /**
+   * Parse a keycap number ("1️⃣0️⃣", "🔟") into its value
+   */
+  private static parseKeycapNumber(keycaps: string): number {
+    return keycaps === "🔟" ? 10 : parseInt(keycaps.replace(/[^0-9]/g, ""));
+  }
+
+  /**
+   * Parse an ASCII offset ("10d", "1w3d") into a reminder offset
+   */
+  private static parseAsciiOffset(value: string): ReminderOffset | null {
+    const parts: ReminderOffset[] = [];
+    const partRegex = /(\d+)(y|mo|w|d|h|min)/gi;
+    let match;
+
+    while ((match = partRegex.exec(value)) !== null) {
+      const num = parseInt(match[1] ?? "");
+      const unit = ASCII_OFFSET_UNITS[(match[2] ?? "").toLowerCase()];
+      if (num > 0 && unit) {
+        parts.push({ number: num, unit });
+      }
+    }
+
+    const [first, ...rest] = parts;
+    if (!first) {
+      return null;
+    }
+    return rest.length > 0 ? { ...first, rest } : first;
+  }
+
   /**
    * Extract the title (everything before the date marker)
    */
@@ -84,6 +677,72 @@ export class TaskParser {
     return cleaned.trim();
   }
 
+  /**
+   * Move a task line on to new dates, in whatever notation the dates are
+   * written (📆, 📅, [due:: ], custom markers), and update the occurrences
+   * left of a limited series (x12, COUNT=12). Only the date after a marker
+   * moves, not the same date written in the title.
+   */
+  static advanceTask(
+    text: string,
+    from: { eventDate: string; eventEndDate: string | null },
+    to: TaskAdvance,
+    repeatCount: number | null,
+    dateMarkers: string[] = [],
+  ): string {
+    const markers = [
+      DATE_MARKER_PATTERN,
+      ...TaskParser.sortTokens(dateMarkers).map(escapeRegExp),
+    ].join("|");
+    let advanced = text.replace(
+      new RegExp(`(${markers})(\\uFE0F?\\s*)${from.eventDate}`, "iu"),
+      `$1$2${to.eventDate}`,
+    );
+    if (from.eventEndDate && to.eventEndDate) {
+      advanced = advanced.replace(
+        `..${from.eventEndDate}`,
+        `..${to.eventEndDate}`,
+      );
+    }
+    if (repeatCount !== null && to.repeatCount !== null) {
+      advanced = advanced
+        .replace(new RegExp(`\\bx${repeatCount}\\b`), `x${to.repeatCount}`)
+        .replace(
+          new RegExp(`\\bCOUNT=${repeatCount}\\b`, "i"),
+          `COUNT=${to.repeatCount}`,
+        );
+    }
+    return advanced;
+  }
+
+  /**
+   * Turn a task line into its completed form: checked off, with a ✅ date
+   * and without a block ID (which must stay unique to the original line)
+   */
+  static completeTask(text: string, doneDate: string): string {
+    const checked = text.replace(/^(\s*(?:[-*+]|\d+[.)])\s+\[).(\])/, "$1x$2");
+    const withoutBlockId = checked.replace(/\s*\^[a-zA-Z0-9-]+\s*$/, "");
+    return `${withoutBlockId.trimEnd()} ✅ ${doneDate}`;
+  }
+
+  /**
+   * Remove the notification markers from a task line (🔔, with the ASCII
+   * offsets and countdowns written after it, and custom notify markers), so
+   * it's no longer read as a notification task
+   */
+  static removeNotificationMarkers(
+    text: string,
+    notifyMarkers: string[] = [],
+  ): string {
+    let result = text
+      .replace(new RegExp(DAILY_REMINDER_PATTERN, "gi"), "")
+      .replace(/🔔[-+](?:\d+(?:y|mo|w|d|h|min))+(?![a-z])/gi, "");
+    for (const token of [...TaskParser.sortTokens(notifyMarkers), "🔔"]) {
+      result = result.split(token).join("");
+    }
+    return result.replace(/(\S)\s{2,}/g, "$1 ").trimEnd();
+  }
+
   /**
    * Extract block ID from task text
    * Format: ^blockid at end of line
@@ -100,6 +759,147 @@ export class TaskParser {
     return Math.random().toString(36).substring(2, 8);
   }
 
+  /**
+   * Split a frontmatter event mapping into the property key and the task
+   * syntax that applies to it
+   * Format: birthday: 🔁 year 1️⃣ week, renewal: 1️⃣ month
+   */
+  static parseFrontmatterEvent(
+    definition: string,
+  ): { key: string; modifiers: string } | null {
+    const match = definition.match(/^\s*([^:]+?)\s*(?::\s*(.*))?$/);
+    if (!match?.[1]) {
+      return null;
+    }
+    return { key: match[1], modifiers: (match[2] ?? "").trim() };
+  }
+
+  /**
+   * Extract the number of days a notify block lists as an agenda, or null
+   * for the usual notifications of a single day
+   * Format: range: 14, range: 14 days, range: 2 weeks
+   */
+  static parseBlockRange(source: string): number | null {
+    const match = source.match(BLOCK_RANGE_PATTERN);
+    if (!match?.[1]) {
+      return null;
+    }
+    const days =
+      parseInt(match[1]) * (match[2]?.toLowerCase() === "week" ? 7 : 1);
+    return days > 0 ? days : null;
+  }
+
+  /**
+   * Extract an event date from a frontmatter property value
+   * Format: YYYY-MM-DD, optionally followed by a time (YYYY-MM-DDTHH:mm)
+   */
+  static extractFrontmatterDate(value: unknown): string | null {
+    if (typeof value !== "string") {
+      return null;
+    }
+    const match = value.trim().match(/^(\d{4}-\d{2}-\d{2})(?:$|[T\s])/);
+    if (match?.[1] && moment(match[1], "YYYY-MM-DD", true).isValid()) {
+      return match[1];
+    }
+    return null;
+  }
+
+  /**
+   * Check if a string is a real YYYY-MM-DD date
+   */
+  static isValidDate(date: string): boolean {
+    return moment(date, "YYYY-MM-DD", true).isValid();
+  }
+
+  /**
+   * Find the problems in a notification task that would make it be dropped
+   * or only partly understood, each with a suggested fix
+   */
+  static findProblems(text: string): ParseProblem[] {
+    const problems: ParseProblem[] = [];
+
+    const eventDate = TaskParser.extractDate(text);
+    if (!eventDate) {
+      const written = text.match(/📆\s*(\S+)/)?.[1];
+      // Dates such as 2025/1/15 or 2025.01.15 can be rewritten as they are
+      const fixed = written
+        ? moment(written, ["YYYY/M/D", "YYYY.M.D", "YYYY-M-D"], true)
+        : null;
+      problems.push(
+        written
+          ? {
+              problem: `Event date "${written}" isn't in YYYY-MM-DD format`,
+              suggestion: fixed?.isValid()
+                ? `Write it as 📆 ${fixed.format("YYYY-MM-DD")}`
+                : "Write the date as 📆 YYYY-MM-DD",
+            }
+          : {
+              problem: "No 📆 event date",
+              suggestion: "Add the date as 📆 YYYY-MM-DD",
+            },
+      );
+    } else if (!TaskParser.isValidDate(eventDate)) {
+      const month = moment(eventDate.slice(0, 7), "YYYY-MM", true);
+      problems.push({
+        problem: `Event date ${eventDate} doesn't exist`,
+        suggestion: month.isValid()
+          ? `The last day of that month is ${month.endOf("month").format("YYYY-MM-DD")}`
+          : "Use a month between 01 and 12",
+      });
+    }
+
+    const range = text.match(
+      /📆\s*(\d{4}-\d{2}-\d{2})\s*\.\.\s*(\d{4}-\d{2}-\d{2})/,
+    );
+    if (range?.[1] && range[2] && range[2] <= range[1]) {
+      problems.push({
+        problem: `End date ${range[2]} isn't after start date ${range[1]}`,
+        suggestion: "Use a later end date, or a single date",
+      });
+    }
+
+    if (text.includes("⏰") && !TaskParser.extractTime(text)) {
+      problems.push({
+        problem: "⏰ isn't followed by a valid time",
+        suggestion: "Use a 24-hour time such as ⏰ 14:30",
+      });
+    }
+
+    if (
+      text.includes("🔁") &&
+      !TaskParser.extractRepeatInterval(text) &&
+      !TaskParser.extractRecurrenceRule(text)
+    ) {
+      const written = text.match(/🔁\s*((?:every\s+)?\S*)/)?.[1] ?? "";
+      const fix = REPEAT_TYPOS[written.toLowerCase()];
+      problems.push({
+        problem: `Repeat "🔁 ${written}" isn't recognised`,
+        suggestion: fix
+          ? `Write it as 🔁 ${fix}`
+          : "Use 🔁 day, week, month or year, or 🔁 every 2 weeks",
+      });
+    }
+
+    if (text.includes("⏪") && TaskParser.extractLookbackDays(text) === null) {
+      problems.push({
+        problem: "⏪ isn't followed by a number of days",
+        suggestion: "Write the lookback window as ⏪ 14",
+      });
+    }
+
+    if (text.includes("🔚")) {
+      const until = TaskParser.extractRepeatUntil(text);
+      if (!until || !TaskParser.isValidDate(until)) {
+        problems.push({
+          problem: "🔚 isn't followed by a valid end date",
+          suggestion: "Write the last day of the series as 🔚 YYYY-MM-DD",
+        });
+      }
+    }
+
+    return problems;
+  }
+
   /**
    * Extract date from filename
    * Supports common daily note formats:
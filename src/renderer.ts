@@ -9,7 +9,34 @@ import { NotificationMatcher } from "./matcher";
 import { NotificationSettings } from "./settings";
 import { TaskParser } from "./parser";
 import { Logger } from "./logger";
-import { ActiveNotification } from "./types";
+import {
+  ActiveNotification,
+  AgendaDay,
+  AgendaEntry,
+  Holiday,
+  NotificationTask,
+} from "./types";
+import {
+  formatDaysAway,
+  formatEventDate,
+  formatInstant,
+  formatNotificationKey,
+  formatOccurrence,
+  formatTaskRepeat,
+  formatWorkdayShift,
+} from "./format-utils";
+
+// What a notify block shows for its reference date
+interface BlockNotifications {
+  activeNotifications: ActiveNotification[];
+  holidays: Holiday[];
+}
+
+// What a notify block with a range shows for the days from its reference date
+interface BlockAgenda {
+  days: AgendaDay[];
+  holidays: Holiday[];
+}
 
 export class NotifyBlockRenderer extends MarkdownRenderChild {
   private plugin: NotificationPlugin;
@@ -17,6 +44,7 @@ export class NotifyBlockRenderer extends MarkdownRenderChild {
   private sourcePath: string;
   private lastRenderHash: string = "";
   private logger: Logger;
+  private rangeDays: number | null; // days listed as an agenda, or null
 
   constructor(
     containerEl: HTMLElement,
@@ -24,12 +52,14 @@ export class NotifyBlockRenderer extends MarkdownRenderChild {
     plugin: NotificationPlugin,
     settings: NotificationSettings,
     logger: Logger,
+    source: string,
   ) {
     super(containerEl);
     this.plugin = plugin;
     this.settings = settings;
     this.sourcePath = ctx.sourcePath;
     this.logger = logger;
+    this.rangeDays = TaskParser.parseBlockRange(source);
   }
 
   onload() {
@@ -73,44 +103,119 @@ export class NotifyBlockRenderer extends MarkdownRenderChild {
       return;
     }
 
+    if (this.rangeDays !== null) {
+      const agenda = this.getAgenda(this.rangeDays);
+      const currentHash = this.hashAgenda(agenda);
+      if (currentHash !== this.lastRenderHash) {
+        this.lastRenderHash = currentHash;
+        await this.renderAgenda(agenda);
+      }
+      return;
+    }
+
     // Only re-render if the notifications actually changed
-    const allTasks = this.plugin.cache.getAllTasks();
-    const referenceDate = this.getReferenceDate();
-    const matcher = new NotificationMatcher(this.settings);
-    const activeNotifications = matcher.getActiveNotifications(
-      allTasks,
-      referenceDate,
-    );
+    const { activeNotifications, holidays } = this.getNotifications();
 
     // Create a hash of current notifications
-    const currentHash = this.hashNotifications(activeNotifications);
+    const currentHash = this.hashNotifications(activeNotifications, holidays);
 
     // Only re-render if something changed
     if (currentHash !== this.lastRenderHash) {
       this.lastRenderHash = currentHash;
-      await this.render();
+      await this.render({ activeNotifications, holidays });
     }
   }
 
-  private hashNotifications(notifications: ActiveNotification[]): string {
+  /**
+   * Get the notifications and holidays to show for the reference date,
+   * matching only the tasks the cache has indexed on that date
+   */
+  private getNotifications(): BlockNotifications {
+    const referenceDate = this.getReferenceDate();
+    const matcher = new NotificationMatcher(
+      this.settings,
+      this.plugin.holidays.getAllHolidays(),
+    );
+    return {
+      activeNotifications: matcher.getActiveNotifications(
+        this.plugin.cache.getTasksForDate(referenceDate),
+        referenceDate,
+      ),
+      holidays: this.getShownHolidays(matcher, referenceDate),
+    };
+  }
+
+  /**
+   * Get the occurrences, and holidays if shown, of the days in the block's
+   * range, starting on the reference date
+   */
+  private getAgenda(rangeDays: number): BlockAgenda {
+    const from = this.getReferenceDate();
+    const to = moment(from)
+      .add(rangeDays - 1, "days")
+      .format("YYYY-MM-DD");
+    const matcher = new NotificationMatcher(
+      this.settings,
+      this.plugin.holidays.getAllHolidays(),
+    );
+
+    const holidays: Holiday[] = [];
+    for (let i = 0; i < rangeDays; i++) {
+      const date = moment(from).add(i, "days").format("YYYY-MM-DD");
+      holidays.push(...this.getShownHolidays(matcher, date));
+    }
+
+    return {
+      days: matcher.getAgenda(
+        this.plugin.cache.getTasksBetween(from, to),
+        from,
+        to,
+      ),
+      holidays,
+    };
+  }
+
+  private hashAgenda({ days, holidays }: BlockAgenda): string {
+    const parts: string[] = [];
+    for (const day of days) {
+      for (const entry of day.entries) {
+        parts.push(
+          `${day.date}:${entry.task.filePath}:${entry.task.lineNumber}:${entry.time ?? ""}:${entry.reminders.map((r) => r.date).join(",")}`,
+        );
+      }
+    }
+    return parts
+      .concat(holidays.map((h) => `holiday:${h.date}:${h.name}`))
+      .sort()
+      .join("|");
+  }
+
+  private hashNotifications(
+    notifications: ActiveNotification[],
+    holidays: Holiday[],
+  ): string {
     // Create a simple hash of the notifications to detect changes
     return notifications
       .map(
         (n) =>
-          `${n.task.filePath}:${n.task.lineNumber}:${n.reminderOffset?.number ?? "event"}`,
+          `${n.task.filePath}:${n.task.lineNumber}:${n.kind}:${n.reminderOffset?.number ?? "event"}:${n.occurrenceDate}`,
       )
+      .concat(holidays.map((h) => `holiday:${h.date}:${h.name}`))
       .sort()
       .join("|");
   }
 
-  private getNotificationKey(notif: ActiveNotification): string {
-    const offset = notif.reminderOffset
-      ? `${notif.reminderOffset.number}-${notif.reminderOffset.unit}`
-      : "event";
-    return `${notif.task.filePath}:${notif.task.lineNumber}:${offset}`;
+  /**
+   * Get the holidays to list for the reference date (none unless enabled)
+   */
+  private getShownHolidays(
+    matcher: NotificationMatcher,
+    referenceDate: string,
+  ): Holiday[] {
+    return this.settings.showHolidays ? matcher.getHolidays(referenceDate) : [];
   }
 
-  private async render() {
+  private async render(notifications?: BlockNotifications) {
     // Wait for cache to be initialized
     if (!this.plugin.cache) {
       this.containerEl.empty();
@@ -121,21 +226,17 @@ export class NotifyBlockRenderer extends MarkdownRenderChild {
       return;
     }
 
-    // Get all tasks from cache
-    const allTasks = this.plugin.cache.getAllTasks();
-
-    // Get reference date (from file or system date)
-    const referenceDate = this.getReferenceDate();
+    if (this.rangeDays !== null) {
+      await this.renderAgenda(this.getAgenda(this.rangeDays));
+      return;
+    }
 
-    // Use matcher to find active notifications
-    const matcher = new NotificationMatcher(this.settings);
-    const activeNotifications = matcher.getActiveNotifications(
-      allTasks,
-      referenceDate,
-    );
+    // Use what refresh() already matched, if anything
+    const { activeNotifications, holidays } =
+      notifications ?? this.getNotifications();
 
     // Update hash
-    this.lastRenderHash = this.hashNotifications(activeNotifications);
+    this.lastRenderHash = this.hashNotifications(activeNotifications, holidays);
 
     // Clear previous content
     this.containerEl.empty();
@@ -143,7 +244,7 @@ export class NotifyBlockRenderer extends MarkdownRenderChild {
     // Add CSS class for styling
     this.containerEl.addClass("notification-block");
 
-    if (activeNotifications.length === 0) {
+    if (activeNotifications.length === 0 && holidays.length === 0) {
       this.containerEl.createEl("p", {
         text: "No notifications for today",
         cls: "notification-empty",
@@ -156,11 +257,112 @@ export class NotifyBlockRenderer extends MarkdownRenderChild {
       cls: "contains-task-list",
     });
 
-    for (const notif of activeNotifications) {
+    // Holidays first, as plain items without a checkbox
+    for (const holiday of holidays) {
+      ul.createEl("li", {
+        text: `🎉 ${holiday.name} — holiday`,
+        cls: "notification-holiday",
+      });
+    }
+
+    // All-day items first, then timed items by time of day
+    const sorted = [...activeNotifications].sort((a, b) =>
+      (a.task.eventTime ?? "").localeCompare(b.task.eventTime ?? ""),
+    );
+
+    for (const notif of sorted) {
       await this.renderNotificationItem(ul, notif);
     }
   }
 
+  private async renderAgenda(agenda: BlockAgenda) {
+    const { days, holidays } = agenda;
+    const referenceDate = this.getReferenceDate();
+
+    // Update hash
+    this.lastRenderHash = this.hashAgenda(agenda);
+
+    this.containerEl.empty();
+    this.containerEl.addClass("notification-block");
+
+    if (days.length === 0 && holidays.length === 0) {
+      this.containerEl.createEl("p", {
+        text: `No events in the next ${this.rangeDays ?? 0} days`,
+        cls: "notification-empty",
+      });
+      return;
+    }
+
+    // A header for each day with events or holidays, in date order
+    const dates = Array.from(
+      new Set(days.map((d) => d.date).concat(holidays.map((h) => h.date))),
+    ).sort();
+    for (const date of dates) {
+      const daysAway = moment(date).diff(moment(referenceDate), "days");
+      this.containerEl.createEl("h4", {
+        text: `${moment(date).format("dddd, YYYY-MM-DD")} — ${formatDaysAway(daysAway)}`,
+        cls: "notification-agenda-day",
+      });
+
+      const ul = this.containerEl.createEl("ul");
+      for (const holiday of holidays) {
+        if (holiday.date === date) {
+          ul.createEl("li", {
+            text: `🎉 ${holiday.name} — holiday`,
+            cls: "notification-holiday",
+          });
+        }
+      }
+      for (const entry of days.find((d) => d.date === date)?.entries ?? []) {
+        await this.renderAgendaEntry(ul, entry);
+      }
+    }
+  }
+
+  private async renderAgendaEntry(ul: HTMLElement, entry: AgendaEntry) {
+    const { task, occurrence } = entry;
+    const li = ul.createEl("li", { cls: "notification-agenda-entry" });
+    const contentSpan = li.createEl("span");
+
+    const timeText = entry.time ? ` ⏰ ${entry.time}` : "";
+    const endText = occurrence.endDate ? ` until ${occurrence.endDate}` : "";
+    const repeat = formatTaskRepeat(task);
+    const repeatText = repeat ? ` 🔁 ${repeat}` : "";
+    const label = occurrence.occurrenceNumber
+      ? formatOccurrence(task, occurrence.occurrenceNumber)
+      : null;
+    const labelText = label ? ` — *${label}*` : "";
+
+    const markdown = `${this.formatTaskLink(task)}${timeText}${endText}${repeatText}${labelText}`;
+    await MarkdownRenderer.render(
+      this.plugin.app,
+      markdown,
+      contentSpan,
+      this.sourcePath,
+      this,
+    );
+
+    // Reminders go under the event they're for
+    if (entry.reminders.length > 0) {
+      const reminders = li.createEl("ul");
+      for (const reminder of entry.reminders) {
+        reminders.createEl("li", {
+          text: `🔔 ${formatInstant(reminder)}`,
+          cls: "notification-agenda-reminder",
+        });
+      }
+    }
+  }
+
+  /**
+   * Link to a task's block, or to its note if it has no block ID
+   */
+  private formatTaskLink(task: NotificationTask): string {
+    return task.blockId
+      ? `[[${task.filePath}#^${task.blockId}|${task.title}]]`
+      : `[[${task.filePath}|${task.title}]]`;
+  }
+
   private async renderNotificationItem(
     ul: HTMLElement,
     notif: ActiveNotification,
@@ -177,9 +379,9 @@ export class NotifyBlockRenderer extends MarkdownRenderChild {
     });
 
     // Get notification key and check if acknowledged
-    const key = this.getNotificationKey(notif);
     const referenceDate = this.getReferenceDate();
-    const isAcknowledged = this.plugin.isAcknowledged(key, referenceDate);
+    const key = formatNotificationKey(notif, referenceDate);
+    const isAcknowledged = this.plugin.isAcknowledged(key);
 
     // Set checkbox state
     checkbox.checked = isAcknowledged;
@@ -206,23 +408,30 @@ export class NotifyBlockRenderer extends MarkdownRenderChild {
     const contentSpan = li.createEl("span");
 
     // Build the markdown for the link and details
-    const link = task.blockId
-      ? `[[${task.filePath}#^${task.blockId}|${task.title}]]`
-      : `[[${task.filePath}|${task.title}]]`;
+    const link = this.formatTaskLink(task);
 
     // Extract context
     const dateMatch = notif.displayText.match(/📆\s*([^\s]+)/);
     const contextMatch = notif.displayText.match(/—\s*\*([^*]+)\*/);
 
-    const date = dateMatch ? dateMatch[1] : task.eventDate;
+    const date = dateMatch ? dateMatch[1] : formatEventDate(task);
     const context = contextMatch ? contextMatch[1] : "today";
 
     // Determine if past event
     const isPast = context?.includes("ago") ?? false;
     const dateDisplay = isPast ? `~~${date}~~` : date;
 
+    // Show the cadence for repeating events
+    const repeat = formatTaskRepeat(task);
+    const repeatText = repeat ? ` 🔁 ${repeat}` : "";
+
+    const timeText = task.eventTime ? ` ⏰ ${task.eventTime}` : "";
+    const shiftText = task.workdayShift
+      ? ` ${formatWorkdayShift(task.workdayShift)}`
+      : "";
+
     // Render the markdown content
-    const markdown = `${link} 📆 ${dateDisplay} — *${context}*`;
+    const markdown = `${link} 📆 ${dateDisplay}${timeText}${shiftText}${repeatText} — *${context}*`;
     await MarkdownRenderer.render(
       this.plugin.app,
       markdown,
@@ -230,5 +439,25 @@ export class NotifyBlockRenderer extends MarkdownRenderChild {
       this.sourcePath,
       this,
     );
+
+    // Offer to complete unacknowledged occurrences of recurring tasks
+    if (
+      this.settings.completeRecurringTasks !== "off" &&
+      repeat &&
+      !task.frontmatterKey &&
+      !isAcknowledged
+    ) {
+      const button = li.createEl("button", {
+        text: "Complete",
+        cls: "notification-complete",
+      });
+      this.registerDomEvent(button, "click", () => {
+        void (async () => {
+          button.disabled = true;
+          await this.plugin.completeOccurrence(notif, key, referenceDate);
+          button.disabled = false;
+        })();
+      });
+    }
   }
 }
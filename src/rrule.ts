@@ -0,0 +1,315 @@
+import { moment } from "obsidian";
+import {
+  RecurrenceFrequency,
+  RecurrenceRule,
+  RecurrenceWeekday,
+  RepeatUnit,
+} from "./types";
+
+export const FREQUENCY_UNITS: Record<RecurrenceFrequency, RepeatUnit> = {
+  DAILY: "day",
+  WEEKLY: "week",
+  MONTHLY: "month",
+  YEARLY: "year",
+};
+
+// Upper bound on periods walked, so rules that can never produce a date
+// (e.g. FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=30) still terminate
+const MAX_PERIODS = 10000;
+
+/**
+ * Expand a recurrence rule into its occurrences between two dates (inclusive),
+ * stopping after limit occurrences if given. The series starts at startDate
+ * (the task's 📆 date), COUNT is applied before EXDATE is removed, as in RFC 5545.
+ */
+export function getRuleOccurrences(
+  rule: RecurrenceRule,
+  startDate: string,
+  from: moment.Moment,
+  to: moment.Moment,
+  limit: number = Infinity,
+): moment.Moment[] {
+  const start = moment(startDate);
+  const until = rule.until ? moment(rule.until) : null;
+  const unit = FREQUENCY_UNITS[rule.freq];
+  const firstPeriod = getPeriodStart(start, rule.freq);
+  const exDates = new Set(rule.exDates);
+  const occurrences: moment.Moment[] = [];
+  let generated = 0;
+
+  // Without COUNT, earlier periods can't affect the result, so skip ahead
+  let period = 0;
+  if (rule.count === null && from.isAfter(firstPeriod)) {
+    const elapsed = Math.floor(from.diff(firstPeriod, unit) / rule.interval);
+    period = Math.max(0, elapsed - 1);
+  }
+
+  for (; period < MAX_PERIODS; period++) {
+    const periodStart = firstPeriod.clone().add(period * rule.interval, unit);
+    if (
+      periodStart.isAfter(to, "day") ||
+      (until && periodStart.isAfter(until, "day"))
+    ) {
+      break;
+    }
+
+    for (const candidate of expandPeriod(rule, start, periodStart)) {
+      if (candidate.isBefore(start, "day")) {
+        continue;
+      }
+      if (until && candidate.isAfter(until, "day")) {
+        return occurrences;
+      }
+
+      generated++;
+      if (rule.count !== null && generated > rule.count) {
+        return occurrences;
+      }
+
+      if (
+        !candidate.isBefore(from, "day") &&
+        !candidate.isAfter(to, "day") &&
+        !exDates.has(candidate.format("YYYY-MM-DD"))
+      ) {
+        occurrences.push(candidate);
+        if (occurrences.length >= limit) {
+          return occurrences;
+        }
+      }
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * Find the first occurrence of a rule on or after a date, or null when the
+ * series has no more. Rules can skip years at a time (e.g. a leap day), so
+ * the search widens until it finds one or passes the end of the series.
+ */
+export function getNextRuleOccurrence(
+  rule: RecurrenceRule,
+  startDate: string,
+  from: moment.Moment,
+): moment.Moment | null {
+  const until = rule.until ? moment(rule.until) : null;
+  const last = moment(startDate).add(
+    MAX_PERIODS * rule.interval,
+    FREQUENCY_UNITS[rule.freq],
+  );
+
+  for (let years = rule.interval + 1; ; years *= 2) {
+    const to = from.clone().add(years, "years");
+    const next = getRuleOccurrences(rule, startDate, from, to, 1)[0];
+    if (next) {
+      return next;
+    }
+    if ((until && to.isAfter(until, "day")) || to.isAfter(last, "day")) {
+      return null;
+    }
+  }
+}
+
+/**
+ * Get the final occurrence of a rule that ends by COUNT or UNTIL, or null if
+ * it never produces one
+ */
+export function getLastRuleOccurrence(
+  rule: RecurrenceRule,
+  startDate: string,
+): moment.Moment | null {
+  const start = moment(startDate);
+  const end = rule.until
+    ? moment(rule.until)
+    : start.clone().add(1000, "years");
+  const occurrences = getRuleOccurrences(rule, startDate, start, end);
+  return occurrences[occurrences.length - 1] ?? null;
+}
+
+/**
+ * Get the start of the period containing a date (weeks start on Monday)
+ */
+function getPeriodStart(
+  date: moment.Moment,
+  freq: RecurrenceFrequency,
+): moment.Moment {
+  switch (freq) {
+    case "DAILY":
+      return date.clone().startOf("day");
+    case "WEEKLY":
+      return date.clone().startOf("isoWeek");
+    case "MONTHLY":
+      return date.clone().startOf("month");
+    case "YEARLY":
+      return date.clone().startOf("year");
+  }
+}
+
+/**
+ * Produce the sorted candidate dates of one period
+ */
+function expandPeriod(
+  rule: RecurrenceRule,
+  start: moment.Moment,
+  periodStart: moment.Moment,
+): moment.Moment[] {
+  switch (rule.freq) {
+    case "DAILY": {
+      return matchesDailyFilters(rule, periodStart)
+        ? [periodStart.clone()]
+        : [];
+    }
+
+    case "WEEKLY": {
+      const weekdays =
+        rule.byDay.length > 0
+          ? rule.byDay.map((d) => d.weekday)
+          : [start.day()];
+      const days: moment.Moment[] = [];
+      for (let i = 0; i < 7; i++) {
+        const day = periodStart.clone().add(i, "days");
+        if (weekdays.includes(day.day()) && matchesByMonth(rule, day)) {
+          days.push(day);
+        }
+      }
+      return days;
+    }
+
+    case "MONTHLY": {
+      return matchesByMonth(rule, periodStart)
+        ? expandMonth(rule, start, periodStart)
+        : [];
+    }
+
+    case "YEARLY": {
+      if (rule.byMonth.length > 0 || rule.byMonthDay.length > 0) {
+        const months =
+          rule.byMonth.length > 0
+            ? [...rule.byMonth].sort((a, b) => a - b)
+            : [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12];
+        const days: moment.Moment[] = [];
+        for (const m of months) {
+          days.push(
+            ...expandMonth(rule, start, periodStart.clone().month(m - 1)),
+          );
+        }
+        return days;
+      }
+
+      if (rule.byDay.length > 0) {
+        // e.g. FREQ=YEARLY;BYDAY=20MO is the 20th Monday of the year
+        return selectWeekdays(
+          periodStart,
+          periodStart.clone().endOf("year"),
+          rule.byDay,
+        );
+      }
+
+      // Same month and day as the start date (skipped when it doesn't exist)
+      const day = periodStart.clone().month(start.month()).date(start.date());
+      return day.date() === start.date() ? [day] : [];
+    }
+  }
+}
+
+/**
+ * Produce the candidate dates of one month from BYMONTHDAY and BYDAY
+ */
+function expandMonth(
+  rule: RecurrenceRule,
+  start: moment.Moment,
+  month: moment.Moment,
+): moment.Moment[] {
+  const first = month.clone().startOf("month");
+  const daysInMonth = first.daysInMonth();
+
+  let days: number[];
+  if (rule.byMonthDay.length > 0) {
+    days = rule.byMonthDay
+      .map((d) => (d > 0 ? d : daysInMonth + d + 1))
+      .filter((d) => d >= 1 && d <= daysInMonth);
+    if (rule.byDay.length > 0) {
+      const byDay = selectWeekdays(
+        first,
+        first.clone().endOf("month"),
+        rule.byDay,
+      ).map((d) => d.date());
+      days = days.filter((d) => byDay.includes(d));
+    }
+  } else if (rule.byDay.length > 0) {
+    days = selectWeekdays(first, first.clone().endOf("month"), rule.byDay).map(
+      (d) => d.date(),
+    );
+  } else {
+    // Same day of month as the start date (skipped in short months)
+    days = start.date() <= daysInMonth ? [start.date()] : [];
+  }
+
+  return Array.from(new Set(days))
+    .sort((a, b) => a - b)
+    .map((d) => first.clone().date(d));
+}
+
+/**
+ * Select the BYDAY dates (e.g. "2TU", "-1FR", "MO") between two dates
+ */
+function selectWeekdays(
+  first: moment.Moment,
+  last: moment.Moment,
+  byDay: RecurrenceWeekday[],
+): moment.Moment[] {
+  const selected = new Map<string, moment.Moment>();
+
+  for (const { weekday, ordinal } of byDay) {
+    const matches: moment.Moment[] = [];
+    const day = first.clone();
+    while (!day.isAfter(last, "day")) {
+      if (day.day() === weekday) {
+        matches.push(day.clone());
+      }
+      day.add(1, "day");
+    }
+
+    const picked =
+      ordinal === null
+        ? matches
+        : [matches[ordinal > 0 ? ordinal - 1 : matches.length + ordinal]];
+    for (const match of picked) {
+      if (match) {
+        selected.set(match.format("YYYY-MM-DD"), match);
+      }
+    }
+  }
+
+  return Array.from(selected.values()).sort((a, b) => a.diff(b));
+}
+
+/**
+ * DAILY rules use BYMONTH, BYMONTHDAY and BYDAY as filters
+ */
+function matchesDailyFilters(
+  rule: RecurrenceRule,
+  day: moment.Moment,
+): boolean {
+  if (!matchesByMonth(rule, day)) {
+    return false;
+  }
+
+  if (rule.byMonthDay.length > 0) {
+    const daysInMonth = day.daysInMonth();
+    const matchesMonthDay = rule.byMonthDay.some(
+      (d) => (d > 0 ? d : daysInMonth + d + 1) === day.date(),
+    );
+    if (!matchesMonthDay) {
+      return false;
+    }
+  }
+
+  return (
+    rule.byDay.length === 0 || rule.byDay.some((d) => d.weekday === day.day())
+  );
+}
+
+function matchesByMonth(rule: RecurrenceRule, day: moment.Moment): boolean {
+  return rule.byMonth.length === 0 || rule.byMonth.includes(day.month() + 1);
+}
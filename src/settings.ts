@@ -1,6 +1,12 @@
 import { App, PluginSettingTab, Setting } from "obsidian";
 import NotificationPlugin from "./main";
-import { NotificationAcknowledgements } from "./types";
+import {
+  CompletionMode,
+  MarkerVocabulary,
+  MonthEndPolicy,
+  NotificationAcknowledgements,
+  SyntaxDialect,
+} from "./types";
 
 export interface NotificationSettings {
   lookbackDays: number;
@@ -8,6 +14,15 @@ export interface NotificationSettings {
   debugLogging: boolean;
   useFileDate: boolean;
   excludedFolders: string[];
+  nonWorkingDays: number[]; // 0 = Sunday ... 6 = Saturday
+  holidayFiles: string[]; // markdown lists or CSV files of holidays
+  monthEndPolicy: MonthEndPolicy;
+  showHolidays: boolean;
+  hideCompletedTasks: boolean;
+  completeRecurringTasks: CompletionMode;
+  frontmatterEvents: string[]; // "birthday: 🔁 year 1️⃣ week"
+  syntaxDialects: SyntaxDialect[];
+  markerVocabulary: MarkerVocabulary;
 }
 
 export const DEFAULT_SETTINGS: NotificationSettings = {
@@ -16,8 +31,19 @@ export const DEFAULT_SETTINGS: NotificationSettings = {
   debugLogging: false,
   useFileDate: true,
   excludedFolders: ["Templates"],
+  nonWorkingDays: [0, 6],
+  holidayFiles: [],
+  monthEndPolicy: "clamp",
+  showHolidays: false,
+  hideCompletedTasks: true,
+  completeRecurringTasks: "off",
+  frontmatterEvents: [],
+  syntaxDialects: [],
+  markerVocabulary: { notify: [], date: [], repeat: [], offset: [] },
 };
 
+const WEEKDAY_ABBREVIATIONS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
 export class NotificationSettingTab extends PluginSettingTab {
   plugin: NotificationPlugin;
 
@@ -38,7 +64,7 @@ export class NotificationSettingTab extends PluginSettingTab {
     new Setting(containerEl)
       .setName("Lookback window (days)")
       .setDesc(
-        "Show past events for this many days (recommended: 2-3 for weekends, max: 7)",
+        "Show past events for this many days (recommended: 2-3 for weekends, max: 7). Add ⏪ 14 to a task for a longer window, or 📌 to keep it until checked off",
       )
       .addText((text) =>
         text
@@ -49,6 +75,7 @@ export class NotificationSettingTab extends PluginSettingTab {
             if (!isNaN(num) && num >= 0 && num <= 7) {
               this.plugin.settings.lookbackDays = num;
               await this.plugin.saveSettings();
+              this.plugin.reindexNotifications();
             }
           }),
       );
@@ -103,5 +130,243 @@ export class NotificationSettingTab extends PluginSettingTab {
             await this.plugin.reinitializeCache();
           }),
       );
+
+    this.addDialectSetting(
+      containerEl,
+      "tasks",
+      "Tasks plugin dates",
+      "Read 📅 due, ⏳ scheduled and 🛫 start dates from the Tasks plugin. Tasks with one of these dates don't need a 🔔",
+    );
+
+    this.addDialectSetting(
+      containerEl,
+      "dataview",
+      "Dataview inline fields",
+      "Read [due:: ], [scheduled:: ], [start:: ] and [repeat:: ] fields. Tasks with one of these dates don't need a 🔔",
+    );
+
+    new Setting(containerEl)
+      .setName("Frontmatter events")
+      .setDesc(
+        "Note properties to treat as event dates (one per line). " +
+          "Follow a property with a colon and task syntax to repeat or remind, e.g. birthday: 🔁 year 1️⃣ week",
+      )
+      .addTextArea((text) =>
+        text
+          .setPlaceholder("Birthday: 🔁 year 1️⃣ week\nrenewal: 1️⃣ month")
+          .setValue(this.plugin.settings.frontmatterEvents.join("\n"))
+          .onChange(async (value) => {
+            const events = value
+              .split("\n")
+              .map((e) => e.trim())
+              .filter((e) => e.length > 0);
+
+            this.plugin.settings.frontmatterEvents = events;
+            await this.plugin.saveSettings();
+            await this.plugin.reinitializeCache();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName("Hide completed tasks")
+      .setDesc(
+        "Stop notifying about one-time events whose task is checked off as done or cancelled. Repeating events keep notifying",
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.hideCompletedTasks)
+          .onChange(async (value) => {
+            this.plugin.settings.hideCompletedTasks = value;
+            await this.plugin.saveSettings();
+            this.plugin.refreshAllNotifications();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName("Complete recurring tasks")
+      .setDesc(
+        "Add a complete button to repeating events in notify blocks, which updates the task in its note",
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("off", "No button")
+          .addOption("advance", "Move the date to the next occurrence")
+          .addOption("copy", "Keep a completed copy and move the date")
+          .setValue(this.plugin.settings.completeRecurringTasks)
+          .onChange(async (value) => {
+            this.plugin.settings.completeRecurringTasks =
+              value as CompletionMode;
+            await this.plugin.saveSettings();
+            this.plugin.refreshAllNotifications();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName("Non-working weekdays")
+      .setDesc(
+        "Weekdays off work, comma separated. Events marked ⏮ workday or ⏭ workday move away from them",
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("Sat, sun")
+          .setValue(
+            this.plugin.settings.nonWorkingDays
+              .map((d) => WEEKDAY_ABBREVIATIONS[d])
+              .join(", "),
+          )
+          .onChange(async (value) => {
+            const days = value
+              .split(",")
+              .map((d) => WEEKDAY_ABBREVIATIONS.indexOf(d.trim().toLowerCase()))
+              .filter((d) => d >= 0);
+
+            this.plugin.settings.nonWorkingDays = days;
+            await this.plugin.saveSettings();
+            this.plugin.reindexNotifications();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName("Short months")
+      .setDesc(
+        "Where monthly and yearly events go in months without their day, such as the 31st or a leap day",
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("clamp", "Last day of the month")
+          .addOption("rollOver", "First day of the next month")
+          .addOption("skip", "Skip that month")
+          .setValue(this.plugin.settings.monthEndPolicy)
+          .onChange(async (value) => {
+            this.plugin.settings.monthEndPolicy = value as MonthEndPolicy;
+            await this.plugin.saveSettings();
+            this.plugin.reindexNotifications();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName("Holiday files")
+      .setDesc(
+        "Files listing public holidays (one path per line). Use a markdown list of dated items or a CSV of date and name. " +
+          "Holidays count as non-working days",
+      )
+      .addTextArea((text) =>
+        text
+          .setPlaceholder("Holidays.md\nCalendars/holidays.csv")
+          .setValue(this.plugin.settings.holidayFiles.join("\n"))
+          .onChange(async (value) => {
+            const files = value
+              .split("\n")
+              .map((f) => f.trim())
+              .filter((f) => f.length > 0);
+
+            this.plugin.settings.holidayFiles = files;
+            await this.plugin.saveSettings();
+            await this.plugin.reloadHolidays();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName("Show holidays")
+      .setDesc("List holidays from the holiday files in notify blocks")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.showHolidays)
+          .onChange(async (value) => {
+            this.plugin.settings.showHolidays = value;
+            await this.plugin.saveSettings();
+            this.plugin.refreshAllNotifications();
+          }),
+      );
+
+    new Setting(containerEl).setName("Markers").setHeading();
+
+    this.addVocabularySetting(
+      containerEl,
+      "notify",
+      "Notification marker",
+      "Alternatives to 🔔, comma separated",
+      "@notify",
+    );
+    this.addVocabularySetting(
+      containerEl,
+      "date",
+      "Event date marker",
+      "Alternatives to 📆, comma separated. The date follows the marker",
+      "due:",
+    );
+    this.addVocabularySetting(
+      containerEl,
+      "repeat",
+      "Repeat marker",
+      "Alternatives to 🔁, comma separated. The repeat follows the marker",
+      "every:",
+    );
+    this.addVocabularySetting(
+      containerEl,
+      "offset",
+      "Reminder offset marker",
+      "Alternatives to keycap digits, comma separated. A number and unit follow the marker (e.g. remind: 2 weeks)",
+      "remind:",
+    );
+  }
+
+  /**
+   * Add a toggle that switches a task syntax dialect on or off
+   */
+  private addDialectSetting(
+    containerEl: HTMLElement,
+    dialect: SyntaxDialect,
+    name: string,
+    desc: string,
+  ): void {
+    new Setting(containerEl)
+      .setName(name)
+      .setDesc(desc)
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.syntaxDialects.includes(dialect))
+          .onChange(async (value) => {
+            const others = this.plugin.settings.syntaxDialects.filter(
+              (d) => d !== dialect,
+            );
+            this.plugin.settings.syntaxDialects = value
+              ? [...others, dialect]
+              : others;
+            await this.plugin.saveSettings();
+            await this.plugin.reinitializeCache();
+          }),
+      );
+  }
+
+  /**
+   * Add a text field for the alternative spellings of one marker
+   */
+  private addVocabularySetting(
+    containerEl: HTMLElement,
+    marker: keyof MarkerVocabulary,
+    name: string,
+    desc: string,
+    placeholder: string,
+  ): void {
+    new Setting(containerEl)
+      .setName(name)
+      .setDesc(desc)
+      .addText((text) =>
+        text
+          .setPlaceholder(placeholder)
+          .setValue(this.plugin.settings.markerVocabulary[marker].join(", "))
+          .onChange(async (value) => {
+            this.plugin.settings.markerVocabulary = {
+              ...this.plugin.settings.markerVocabulary,
+              [marker]: value
+                .split(",")
+                .map((t) => t.trim())
+                .filter((t) => t.length > 0),
+            };
+            await this.plugin.saveSettings();
+            await this.plugin.reinitializeCache();
+          }),
+      );
   }
 }
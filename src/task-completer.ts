@@ -0,0 +1,114 @@
+import { App, TFile, moment } from "obsidian";
+import {
+  CompletionMode,
+  MarkerVocabulary,
+  NotificationTask,
+  TaskAdvance,
+} from "./types";
+import { TaskParser } from "./parser";
+import { Logger } from "./logger";
+
+export class TaskCompleter {
+  private app: App;
+  private logger: Logger;
+
+  constructor(app: App, logger: Logger) {
+    this.app = app;
+    this.logger = logger;
+  }
+
+  /**
+   * Complete one occurrence of a recurring task in its source file. The
+   * task's dates move on to the next occurrence, and in "copy" mode a
+   * checked-off copy with a ✅ date and without its 🔔 is kept below it. After the last
+   * occurrence the task itself is checked off.
+   * Returns false if the task's line has changed since it was read.
+   */
+  async completeOccurrence(
+    task: NotificationTask,
+    occurrenceDate: string,
+    advance: TaskAdvance | null,
+    mode: CompletionMode,
+    doneDate: string,
+    vocabulary: MarkerVocabulary,
+  ): Promise<boolean> {
+    const file = this.app.vault.getAbstractFileByPath(task.filePath);
+    if (!(file instanceof TFile)) {
+      console.warn(`File not found: ${task.filePath}`);
+      return false;
+    }
+
+    let completed = false;
+    try {
+      // Use vault.process() for atomic file modification
+      await this.app.vault.process(file, (content) => {
+        const lines = content.split("\n");
+        const lineIndex = task.lineNumber - 1; // Convert to 0-indexed
+        const line = lines[lineIndex];
+
+        // Safety check: verify line hasn't changed
+        if (line === undefined || line !== task.originalText) {
+          console.warn(
+            `Line ${task.lineNumber} in ${task.filePath} has changed, skipping completion`,
+          );
+          return content;
+        }
+
+        const replacement = advance
+          ? [
+              TaskParser.advanceTask(
+                line,
+                task,
+                advance,
+                task.recurrenceRule?.count ?? task.repeatCount,
+                vocabulary.date,
+              ),
+            ]
+          : [TaskParser.completeTask(line, doneDate)];
+
+        // Keep a record of the completed occurrence, on its own date, below
+        // the task so the task keeps its line number
+        if (advance && mode === "copy") {
+          const duration = task.eventEndDate
+            ? moment(task.eventEndDate).diff(task.eventDate, "days")
+            : 0;
+          const occurrence = TaskParser.advanceTask(
+            line,
+            task,
+            {
+              eventDate: occurrenceDate,
+              eventEndDate: task.eventEndDate
+                ? moment(occurrenceDate)
+                    .add(duration, "days")
+                    .format("YYYY-MM-DD")
+                : null,
+              repeatCount: null,
+            },
+            null,
+            vocabulary.date,
+          );
+          // Without its 🔔 the copy isn't read as another live series
+          replacement.push(
+            TaskParser.removeNotificationMarkers(
+              TaskParser.completeTask(occurrence, doneDate),
+              vocabulary.notify,
+            ),
+          );
+        }
+
+        lines.splice(lineIndex, 1, ...replacement);
+        completed = true;
+
+        this.logger.debug(
+          `Completed ${occurrenceDate} of task in ${task.filePath}:${task.lineNumber}`,
+        );
+
+        return lines.join("\n");
+      });
+    } catch (error) {
+      this.logger.error(`Error completing task in ${task.filePath}:`, error);
+    }
+
+    return completed;
+  }
+}
@@ -1,6 +1,73 @@
+export type RepeatUnit = "day" | "week" | "month" | "year";
+
+// Which day of the month a monthly rule selects: any day, Monday-Friday,
+// or a specific weekday (0 = Sunday ... 6 = Saturday)
+export type MonthlyRuleTarget = "day" | "workday" | number;
+
+export interface MonthlyRule {
+  ordinal: number; // 1-5, or -1 for the last one in the month
+  target: MonthlyRuleTarget;
+}
+
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+export interface RecurrenceWeekday {
+  weekday: number; // 0 = Sunday ... 6 = Saturday
+  ordinal: number | null; // "2TU" -> 2, "-1FR" -> -1, "MO" -> null
+}
+
+// Parsed iCalendar RRULE (plus EXDATE), dates in YYYY-MM-DD format
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: RecurrenceWeekday[];
+  byMonthDay: number[]; // negative values count from the end of the month
+  byMonth: number[]; // 1-12
+  count: number | null;
+  until: string | null;
+  exDates: string[];
+}
+
+// Direction occurrences on non-working days move in: "⏮ workday" / "⏭ workday"
+export type WorkdayShift = "previous" | "next";
+
+// Where monthly and yearly occurrences go when the month is too short for
+// their day (the 31st, February 29): the last day of the month, the 1st of
+// the next month, or nowhere
+export type MonthEndPolicy = "clamp" | "rollOver" | "skip";
+
+// What completing a recurring task from the notify block does to its line:
+// nothing, move the date on to the next occurrence, or also keep a checked-off
+// copy with a ✅ date
+export type CompletionMode = "off" | "advance" | "copy";
+
+// Dates a recurring task moves on to once an occurrence is completed, and the
+// occurrences left of a limited series
+export interface TaskAdvance {
+  eventDate: string;
+  eventEndDate: string | null;
+  repeatCount: number | null;
+}
+
+// Other plugins' task notations the parser can read: Tasks emoji dates
+// (📅 ⏳ 🛫) and Dataview inline fields ([due:: YYYY-MM-DD])
+export type SyntaxDialect = "tasks" | "dataview";
+
+// User-chosen spellings of the notification marker (🔔), event date (📆),
+// repeat (🔁) and reminder offset (keycap digits) markers
+export interface MarkerVocabulary {
+  notify: string[]; // "@notify"
+  date: string[]; // "due:", followed by YYYY-MM-DD
+  repeat: string[]; // "every:", followed by the repeat syntax
+  offset: string[]; // "remind:", followed by a number and unit ("remind: 2 weeks")
+}
+
+export type ReminderUnit = RepeatUnit | "hour" | "minute";
+
 export interface ReminderOffset {
   number: number;
-  unit: "day" | "week" | "month" | "year";
+  unit: ReminderUnit;
+  rest?: ReminderOffset[]; // further parts of mixed offsets, the "3 days" of "1 week 3 days"
 }
 
 export interface NotificationTask {
@@ -8,23 +75,95 @@ export interface NotificationTask {
   filePath: string;
   lineNumber: number;
   blockId: string;
+  frontmatterKey: string | null; // property of a frontmatter event, null for tasks
+  status: string | null; // checkbox character ("x" in "- [x]"), null for frontmatter events
+  doneDate: string | null; // "✅ YYYY-MM-DD"
 
   // Parsed content
   title: string;
-  eventDate: string; // YYYY-MM-DD format
-  repeatInterval: "day" | "week" | "month" | "year" | null;
+  eventDate: string; // YYYY-MM-DD format, first day of multi-day events
+  eventEndDate: string | null; // "📆 start..end", last day of multi-day events
+  eventTime: string | null; // HH:mm format, null for all-day events
+  workdayShift: WorkdayShift | null; // "⏮ workday" / "⏭ workday"
+  pinned: boolean; // "📌": keep showing until acknowledged
+  lookbackDays: number | null; // "⏪ 14", overrides the lookback setting
+  repeatInterval: RepeatUnit | null;
+  repeatEvery: number; // 2 for "every 2 weeks", 1 otherwise
+  monthlyRule: MonthlyRule | null; // "🔁 month on 2nd tue", "🔁 month on last day"
+  recurrenceRule: RecurrenceRule | null; // "🔁 RRULE:FREQ=...", takes precedence
+  repeatUntil: string | null; // "🔚 YYYY-MM-DD", last day of the series
+  repeatCount: number | null; // "🔁 month x12", number of occurrences
+  repeatAfterDone: boolean; // "🔁 3 month after done", counted from the last completion
   reminderOffsets: ReminderOffset[];
+  followUpOffsets: ReminderOffset[]; // "➕1️⃣ week", reminders after the event
+  dailyReminder: ReminderOffset | null; // "🔔 daily 1 week before", countdown window
 
   // Original task text
   originalText: string;
 }
 
+// The event itself, a reminder before it, a follow-up after it, or one day
+// of a daily countdown
+export type NotificationKind = "event" | "reminder" | "followUp" | "countdown";
+
 export interface ActiveNotification {
   task: NotificationTask;
+  kind: NotificationKind;
   reminderOffset: ReminderOffset | null; // null means it's the event day itself
+  occurrenceDate: string; // YYYY-MM-DD, start of the occurrence it's about
+  occurrenceNumber: number | null; // 1 for the 📆 date, null for one-time events and earlier days
   displayText: string;
 }
 
+// One occurrence of a task, after any workday shift
+export interface TaskOccurrence {
+  date: string; // YYYY-MM-DD, first day of the occurrence
+  endDate: string | null; // YYYY-MM-DD, last day of multi-day occurrences
+  occurrenceNumber: number | null; // 1 for the 📆 date, null for one-time events and earlier days
+}
+
+// A moment a task notifies: the first day of an occurrence, or a reminder,
+// follow-up or countdown day for it
+export interface NotificationInstant {
+  kind: NotificationKind;
+  offset: ReminderOffset | null; // null for the event itself
+  date: string; // YYYY-MM-DD
+  time: string | null; // HH:mm for timed events
+  occurrence: TaskOccurrence;
+}
+
+// An occurrence listed in a notify block's agenda, with its reminders
+export interface AgendaEntry {
+  task: NotificationTask;
+  occurrence: TaskOccurrence;
+  time: string | null; // HH:mm for timed events
+  reminders: NotificationInstant[]; // upcoming reminders within the agenda
+}
+
+// The occurrences starting on one day of an agenda
+export interface AgendaDay {
+  date: string; // YYYY-MM-DD
+  entries: AgendaEntry[];
+}
+
+// A public holiday read from a holiday file in the vault
+export interface Holiday {
+  date: string; // YYYY-MM-DD format
+  name: string;
+  filePath: string;
+}
+
+// Something wrong with a notification task, and how to fix it
+export interface ParseProblem {
+  problem: string;
+  suggestion: string | null;
+}
+
+export interface ParseDiagnostic extends ParseProblem {
+  filePath: string;
+  lineNumber: number; // 1-indexed
+}
+
 export interface NotificationAcknowledgements {
-  [key: string]: string; // "filePath:lineNumber:offset" -> "acknowledgedDate"
+  [key: string]: string; // "filePath:lineNumber:offset@occurrenceDate" -> "acknowledgedDate"
 }